@@ -1,7 +1,7 @@
 /**
  * Chart-related examples for the Solana Tracker API
  */
-import { Client } from '@solanatracker/data-api';
+import { Client, ChartInterval } from '@solanatracker/data-api';
 import { handleError } from './utils';
 
 // Initialize the API client with your API key
@@ -12,7 +12,7 @@ const client = new Client({
 /**
  * Example 1: Get OHLCV chart data for a token
  */
-export async function getTokenChartData(tokenAddress: string, timeframe: string = '1h', days: number = 7) {
+export async function getTokenChartData(tokenAddress: string, timeframe: ChartInterval = '1h', days: number = 7) {
   try {
     // Calculate time range (e.g., past 7 days)
     const now = Math.floor(Date.now() / 1000);
@@ -88,7 +88,7 @@ export async function getTokenChartData(tokenAddress: string, timeframe: string
 /**
  * Example 2: Get OHLCV data for a specific token and pool
  */
-export async function getPoolChartData(tokenAddress: string, poolAddress: string, timeframe: string = '1h', days: number = 7) {
+export async function getPoolChartData(tokenAddress: string, poolAddress: string, timeframe: ChartInterval = '1h', days: number = 7) {
   try {
     // Calculate time range (e.g., past 7 days)
     const now = Math.floor(Date.now() / 1000);
@@ -137,7 +137,7 @@ export async function getPoolChartData(tokenAddress: string, poolAddress: string
 export async function compareTimeframes(tokenAddress: string) {
   try {
     // Get data for different timeframes
-    const timeframes = ['5m', '1h', '1d'];
+    const timeframes: ChartInterval[] = ['5m', '1h', '1d'];
     const days = [1, 7, 30]; // Corresponding days to fetch
     
     console.log(`\n=== Comparing Different Timeframes for ${tokenAddress} ===`);
@@ -239,7 +239,7 @@ export async function getHolderCountChart(tokenAddress: string, days: number = 3
 /**
  * Example 5: Get market cap chart data
  */
-export async function getMarketCapChart(tokenAddress: string, timeframe: string = '1d', days: number = 30) {
+export async function getMarketCapChart(tokenAddress: string, timeframe: ChartInterval = '1d', days: number = 30) {
   try {
     // Calculate time range
     const now = Math.floor(Date.now() / 1000);
@@ -153,22 +153,8 @@ export async function getUserTokenTrades(tokenAddress: string, walletAddress: st
  */
 export async function analyzeTokenTradingActivity(tokenAddress: string) {
   try {
-    // Get a large number of trades
-    let allTrades: any[] = [];
-    let cursor: number | undefined = undefined;
-    let hasMore = true;
-    
-    // Fetch up to 3 pages of trades (adjust as needed)
-    for (let i = 0; i < 3 && hasMore; i++) {
-      const trades = await client.getTokenTrades(tokenAddress, cursor);
-      allTrades = allTrades.concat(trades.trades);
-      
-      hasMore = trades.hasNextPage || false;
-      cursor = trades.nextCursor;
-      
-      // Avoid rate limits
-      if (hasMore) await new Promise(resolve => setTimeout(resolve, 500));
-    }
+    // Get a large number of trades: up to 3 pages (adjust as needed)
+    const allTrades = await client.iterateTokenTrades(tokenAddress, { maxPages: 3 }).toArray();
     
     console.log(`\n=== Trading Activity Analysis for ${tokenAddress} ===`);
     console.log(`Total Trades Analyzed: ${allTrades.length}`);
@@ -0,0 +1,64 @@
+import {
+  MintAddressLike,
+  assertPublicKey,
+  decodeBase58,
+  encodeBase58,
+  isValidPublicKey,
+  parseMintAddress,
+  parseWalletAddress,
+} from '../address';
+import { ValidationError } from '../errors';
+import { createMockClient, fakeAddress } from '../testing';
+
+const WRAPPED_SOL = 'So11111111111111111111111111111111111111112';
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+
+describe('base58', () => {
+  it('round-trips bytes, including leading zeros', () => {
+    const bytes = Uint8Array.from([0, 0, 1, 2, 255]);
+    expect(Array.from(decodeBase58(encodeBase58(bytes))!)).toEqual(Array.from(bytes));
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(decodeBase58('0OIl')).toBeNull();
+  });
+});
+
+describe('isValidPublicKey', () => {
+  it.each([WRAPPED_SOL, SYSTEM_PROGRAM, fakeAddress(1)])('accepts %s', (address) => {
+    expect(isValidPublicKey(address)).toBe(true);
+  });
+
+  it.each([
+    ['a non-string', 42],
+    ['a short string', 'So1111'],
+    ['an invalid character', `${WRAPPED_SOL.slice(0, -1)}0`],
+    // 44 characters that decode to more than 32 bytes
+    ['too many bytes', 'z'.repeat(44)],
+  ])('rejects %s', (_, value) => {
+    expect(isValidPublicKey(value)).toBe(false);
+  });
+
+  it('throws a ValidationError naming the parameter', () => {
+    expect(() => assertPublicKey('nope', 'tokenAddress')).toThrow(new ValidationError('Invalid tokenAddress: nope'));
+    expect(() => parseMintAddress('nope')).toThrow(ValidationError);
+  });
+});
+
+describe('branded addresses', () => {
+  it('are only accepted where their kind is expected', () => {
+    const mint: MintAddressLike = parseMintAddress(WRAPPED_SOL);
+    const plain: MintAddressLike = WRAPPED_SOL;
+    // @ts-expect-error a wallet address is not a mint address
+    const wallet: MintAddressLike = parseWalletAddress(WRAPPED_SOL);
+    expect([mint, plain, wallet]).toEqual([WRAPPED_SOL, WRAPPED_SOL, WRAPPED_SOL]);
+  });
+});
+
+describe('Client address validation', () => {
+  it('rejects an invalid address before sending a request', async () => {
+    const { client, api } = createMockClient();
+    await expect(client.getTokenInfo('not-an-address')).rejects.toThrow(ValidationError);
+    expect(api.requests).toHaveLength(0);
+  });
+});
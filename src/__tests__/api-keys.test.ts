@@ -0,0 +1,93 @@
+import { ApiKeyPool } from '../api-keys';
+import { AuthenticationError, RateLimitError, ValidationError } from '../errors';
+import { MockRequest, buildTokenDetail, createMockClient, fakeAddress, mockResponse } from '../testing';
+
+const labels = (pool: ApiKeyPool, count: number) => Array.from({ length: count }, () => pool.acquire().label);
+
+describe('ApiKeyPool', () => {
+  it('requires at least one key', () => {
+    expect(() => new ApiKeyPool({ keys: [] })).toThrow(ValidationError);
+  });
+
+  it('rotates through the keys', () => {
+    const pool = new ApiKeyPool({ keys: ['a', 'b', 'c'] });
+    expect(labels(pool, 4)).toEqual(['key-1', 'key-2', 'key-3', 'key-1']);
+  });
+
+  it('prefers the first key with primary-secondary', () => {
+    const pool = new ApiKeyPool({ keys: ['a', { key: 'b', label: 'backup' }], strategy: 'primary-secondary' });
+    expect(labels(pool, 2)).toEqual(['key-1', 'key-1']);
+
+    pool.recordFailure(pool.acquire(), new RateLimitError('slow down', 30));
+    expect(labels(pool, 2)).toEqual(['backup', 'backup']);
+  });
+
+  it('skips a rate limited key until its Retry-After has passed', () => {
+    jest.useFakeTimers();
+    try {
+      const pool = new ApiKeyPool({ keys: ['a', 'b'], strategy: 'primary-secondary' });
+      expect(pool.recordFailure(pool.acquire(), new RateLimitError('slow down', 10))).toBe(true);
+      expect(pool.health[0]).toMatchObject({ status: 'rate-limited', availableAt: Date.now() + 10000 });
+      expect(pool.acquire().label).toBe('key-2');
+
+      jest.advanceTimersByTime(10000);
+      expect(pool.acquire().label).toBe('key-1');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('uses the key available first when every key is rate limited', () => {
+    const pool = new ApiKeyPool({ keys: ['a', 'b'], strategy: 'primary-secondary' });
+    pool.recordFailure(pool.acquire(), new RateLimitError('slow down', 60));
+    pool.recordFailure(pool.acquire(), new RateLimitError('slow down', 5));
+    expect(pool.acquire().label).toBe('key-2');
+  });
+
+  it('takes a rejected key out of rotation for good', () => {
+    const pool = new ApiKeyPool({ keys: ['a', 'b'] });
+    const first = pool.acquire();
+    expect(pool.recordFailure(first, new AuthenticationError('bad key', 401))).toBe(true);
+    expect(labels(pool, 3)).toEqual(['key-2', 'key-2', 'key-2']);
+    expect(pool.hasAlternative(new Set([pool.acquire()]))).toBe(false);
+    expect(pool.health[0]).toMatchObject({ status: 'unauthorized', authFailures: 1 });
+  });
+
+  it('does not move away from a key on other errors', () => {
+    const pool = new ApiKeyPool({ keys: ['a', 'b'] });
+    expect(pool.recordFailure(pool.acquire(), new ValidationError('bad request'))).toBe(false);
+    expect(pool.health[0].status).toBe('healthy');
+  });
+
+  it('masks keys in health reports', () => {
+    const pool = new ApiKeyPool({ keys: ['abcd1234efgh5678', 'short'] });
+    expect(pool.health.map(({ maskedKey }) => maskedKey)).toEqual(['abcd********5678', '*****']);
+  });
+});
+
+describe('Client with several API keys', () => {
+  const mint = fakeAddress(1);
+
+  it('moves to the next key when a key is rate limited', async () => {
+    const { client, api } = createMockClient({ apiKeys: ['first-key', 'second-key'] });
+    api.on('/tokens/:mint', ({ headers }: MockRequest) =>
+      headers['x-api-key'] === 'first-key'
+        ? mockResponse(429, { error: 'Too Many Requests' }, { 'Retry-After': '30' })
+        : buildTokenDetail()
+    );
+
+    await client.getTokenInfo(mint);
+    await client.getTokenInfo(fakeAddress(2));
+    expect(api.requests.map(({ headers }) => headers['x-api-key'])).toEqual(['first-key', 'second-key', 'second-key']);
+    expect(client.apiKeyHealth.map(({ status }) => status)).toEqual(['rate-limited', 'healthy']);
+  });
+
+  it('fails with the API error once every key was rejected', async () => {
+    const { client, api } = createMockClient({ apiKeys: ['first-key', 'second-key'] });
+    api.fail('/tokens/:mint', 401);
+
+    await expect(client.getTokenInfo(mint)).rejects.toThrow(AuthenticationError);
+    expect(api.requests).toHaveLength(2);
+    expect(client.apiKeyHealth.every(({ status }) => status === 'unauthorized')).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+import { BaseUrlPool } from '../base-urls';
+import { Client } from '../data-api';
+import { NetworkError } from '../errors';
+import { MockDataApi, fakeAddress } from '../testing';
+import { FetchLike } from '../transport';
+
+const MIRROR = 'https://mirror.test';
+const PUBLIC = 'https://public.test';
+
+/**
+ * A client whose first base URL fails every request with the given socket error code
+ */
+const createFailoverClient = (code: string, retryNonIdempotent = false) => {
+  const api = new MockDataApi();
+  const urls: string[] = [];
+  const fetch: FetchLike = async (url, init) => {
+    urls.push(url);
+    if (url.startsWith(MIRROR)) {
+      const cause = Object.assign(new Error(`connect ${code}`), { code });
+      throw Object.assign(new TypeError('fetch failed'), { cause });
+    }
+    return api.fetch(url, init);
+  };
+  const client = new Client({
+    apiKey: 'test-api-key',
+    baseUrls: [MIRROR, PUBLIC],
+    fetch,
+    retry: { retryNonIdempotent },
+  });
+  return { client, urls };
+};
+
+describe('base URL failover', () => {
+  it('fails GET requests over to the next URL', async () => {
+    const { client, urls } = createFailoverClient('ECONNRESET');
+    await client.getTokenInfo(fakeAddress(1));
+    expect(urls.map((url) => new URL(url).origin)).toEqual([MIRROR, PUBLIC]);
+  });
+
+  it('does not send a POST to another URL when the first one may have received it', async () => {
+    const { client, urls } = createFailoverClient('ECONNRESET');
+    await expect(client.getMultipleTokens([fakeAddress(1)])).rejects.toBeInstanceOf(NetworkError);
+    expect(urls).toHaveLength(1);
+  });
+
+  it('fails a POST over when the connection was refused', async () => {
+    const { client, urls } = createFailoverClient('ECONNREFUSED');
+    await client.getMultipleTokens([fakeAddress(1)]);
+    expect(urls.map((url) => new URL(url).origin)).toEqual([MIRROR, PUBLIC]);
+  });
+
+  it('fails a POST over when retryNonIdempotent is enabled', async () => {
+    const { client, urls } = createFailoverClient('ECONNRESET', true);
+    await client.getMultipleTokens([fakeAddress(1)]);
+    expect(urls.map((url) => new URL(url).origin)).toEqual([MIRROR, PUBLIC]);
+  });
+});
+
+describe('BaseUrlPool probes', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  const failAll = (pool: BaseUrlPool) => {
+    pool.health.forEach(() => pool.recordFailure(pool.acquire(), new NetworkError('down')));
+  };
+
+  it('probes unhealthy URLs of a pool with alternatives', () => {
+    const fetch = jest.fn<ReturnType<FetchLike>, Parameters<FetchLike>>(() => new Promise(() => {}));
+    const pool = new BaseUrlPool({ urls: [MIRROR, PUBLIC], failureThreshold: 1, probeIntervalMs: 1000 }, fetch);
+    failAll(pool);
+    jest.advanceTimersByTime(1000);
+    expect(fetch).toHaveBeenCalled();
+    pool.stop();
+  });
+
+  it('probes without AbortController', async () => {
+    const fetch = jest.fn<ReturnType<FetchLike>, Parameters<FetchLike>>(async () => new Response(null, { status: 200 }));
+    const pool = new BaseUrlPool({ urls: [MIRROR, PUBLIC], failureThreshold: 1 }, fetch);
+    failAll(pool);
+    const { AbortController } = globalThis;
+    Reflect.deleteProperty(globalThis, 'AbortController');
+    try {
+      await pool.probe();
+    } finally {
+      globalThis.AbortController = AbortController;
+    }
+    expect(fetch.mock.calls[0][1]?.signal).toBeUndefined();
+    expect(pool.health.map(({ status }) => status)).toEqual(['healthy', 'healthy']);
+    pool.stop();
+  });
+
+  it('does not probe a single-URL pool', () => {
+    const fetch = jest.fn<ReturnType<FetchLike>, Parameters<FetchLike>>(() => new Promise(() => {}));
+    const pool = new BaseUrlPool({ urls: [PUBLIC], failureThreshold: 1, probeIntervalMs: 1000 }, fetch);
+    failAll(pool);
+    expect(pool.health[0].status).toBe('unhealthy');
+    jest.advanceTimersByTime(5000);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
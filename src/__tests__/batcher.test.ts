@@ -0,0 +1,72 @@
+import { Client, DataApiConfig } from '../data-api';
+import { NotFoundError } from '../errors';
+import { StubHandler, fakeAddress, reply, stubFetch } from './helpers';
+
+/**
+ * A client answering multi-token requests with the requested tokens, unless a handler is given
+ */
+const createClient = (config: Partial<DataApiConfig>, handler?: StubHandler) => {
+  const requests = stubFetch(
+    handler ||
+      ((request) =>
+        request.path === '/tokens/multi'
+          ? (request.body as { tokens: string[] }).tokens.map((mint) => ({ token: { mint } }))
+          : { token: { mint: request.path.split('/').pop() } })
+  );
+  const client = new Client({ apiKey: 'test-api-key', ...config });
+  const requestsFor = (path: string) => requests.filter((request) => request.path === path);
+  return { client, requestsFor };
+};
+
+const mints = [fakeAddress(1), fakeAddress(2), fakeAddress(3)];
+
+describe('request batching', () => {
+  it('merges concurrent token lookups into one multi-token request', async () => {
+    const { client, requestsFor } = createClient({ batching: true });
+    const tokens = await Promise.all(mints.map((mint) => client.getTokenInfo(mint)));
+
+    expect(tokens.map((token) => token.token.mint)).toEqual(mints);
+    expect(mints.flatMap((mint) => requestsFor(`/tokens/${mint}`))).toHaveLength(0);
+    expect(requestsFor('/tokens/multi').map((request) => request.body)).toEqual([{ tokens: mints }]);
+  });
+
+  it('gives every caller of the same token its own copy of the result', async () => {
+    const { client, requestsFor } = createClient({ batching: true, dedupe: false });
+    const [first, second] = await Promise.all([client.getTokenInfo(mints[0]), client.getTokenInfo(mints[0])]);
+
+    first.token.mint = 'changed';
+    expect(second.token.mint).toBe(mints[0]);
+    expect(requestsFor('/tokens/multi')).toHaveLength(1);
+  });
+
+  it('splits batches at the maximum batch size', async () => {
+    const { client, requestsFor } = createClient({ batching: { maxTokenBatchSize: 2 } });
+    await Promise.all(mints.map((mint) => client.getTokenInfo(mint)));
+    expect(requestsFor('/tokens/multi')).toHaveLength(2);
+  });
+
+  it('retries a failed batch like a single GET', async () => {
+    let calls = 0;
+    const { client } = createClient({ batching: true, retry: { baseDelayMs: 1 } }, (request) => {
+      if (++calls === 1) {
+        return reply(503);
+      }
+      return (request.body as { tokens: string[] }).tokens.map((mint) => ({ token: { mint } }));
+    });
+
+    await expect(client.getTokenInfo(mints[0])).resolves.toMatchObject({ token: { mint: mints[0] } });
+    expect(calls).toBe(2);
+  });
+
+  it('rejects tokens missing from the batch response', async () => {
+    const { client } = createClient({ batching: true }, () => []);
+    await expect(client.getTokenInfo(mints[0])).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('sends calls with batch: false on their own', async () => {
+    const { client, requestsFor } = createClient({ batching: true });
+    await client.getTokenInfo(mints[0], { batch: false });
+    expect(requestsFor(`/tokens/${mints[0]}`)).toHaveLength(1);
+    expect(requestsFor('/tokens/multi')).toHaveLength(0);
+  });
+});
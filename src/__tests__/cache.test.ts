@@ -0,0 +1,77 @@
+import { MemoryCacheStore } from '../cache';
+import { Client, DataApiConfig } from '../data-api';
+import { fakeAddress, stubFetch } from './helpers';
+
+const createClient = (cache: DataApiConfig['cache']) => {
+  const requests = stubFetch();
+  const client = new Client({ apiKey: 'test-api-key', cache });
+  const requestsFor = (path: string) => requests.filter((request) => request.path === path);
+  return { client, requestsFor };
+};
+
+describe('MemoryCacheStore', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('expires entries after their TTL', () => {
+    const store = new MemoryCacheStore();
+    store.set('key', { value: 1 }, 1000);
+    expect(store.get('key')).toEqual({ value: 1 });
+    jest.advanceTimersByTime(1000);
+    expect(store.get('key')).toBeUndefined();
+  });
+
+  it('evicts the least recently used entry', () => {
+    const store = new MemoryCacheStore(2);
+    store.set('a', 1, 1000);
+    store.set('b', 2, 1000);
+    store.get('a');
+    store.set('c', 3, 1000);
+    expect(store.keys()).toEqual(['a', 'c']);
+  });
+
+  it('returns copies that callers cannot mutate', () => {
+    const store = new MemoryCacheStore();
+    store.set('key', { value: 1 }, 1000);
+    (store.get('key') as { value: number }).value = 2;
+    expect(store.get('key')).toEqual({ value: 1 });
+  });
+});
+
+describe('Client cache', () => {
+  it('serves repeated GET requests from the cache', async () => {
+    const { client, requestsFor } = createClient(true);
+    const mint = fakeAddress(1);
+    await client.getTokenInfo(mint);
+    await client.getTokenInfo(mint);
+    expect(requestsFor(`/tokens/${mint}`)).toHaveLength(1);
+  });
+
+  it('skips the lookup when a call passes cache: false', async () => {
+    const { client, requestsFor } = createClient(true);
+    const mint = fakeAddress(1);
+    await client.getTokenInfo(mint);
+    await client.getTokenInfo(mint, { cache: false });
+    expect(requestsFor(`/tokens/${mint}`)).toHaveLength(2);
+  });
+
+  it('does not cache routes with a TTL of 0 or POST requests', async () => {
+    const { client, requestsFor } = createClient({ ttl: { '/tokens/:mint': 0 } });
+    const mint = fakeAddress(1);
+    await client.getTokenInfo(mint);
+    await client.getTokenInfo(mint);
+    await client.getMultipleTokens([mint]);
+    await client.getMultipleTokens([mint]);
+    expect(requestsFor(`/tokens/${mint}`)).toHaveLength(2);
+    expect(requestsFor('/tokens/multi')).toHaveLength(2);
+  });
+
+  it('invalidates the cached responses of an address', async () => {
+    const { client, requestsFor } = createClient(true);
+    const mint = fakeAddress(1);
+    await client.getTokenInfo(mint);
+    await client.invalidateToken(mint);
+    await client.getTokenInfo(mint);
+    expect(requestsFor(`/tokens/${mint}`)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,42 @@
+import { Client } from '../data-api';
+import { AbortError, TimeoutError } from '../errors';
+import { fakeAddress, stubFetch } from './helpers';
+
+/**
+ * A client whose requests never get a response
+ */
+const createHangingClient = (timeoutMs?: number) => {
+  const requests = stubFetch(() => new Promise(() => {}));
+  const client = new Client({ apiKey: 'test-api-key', timeoutMs });
+  return { client, requests };
+};
+
+describe('cancellation', () => {
+  it('times out with the configured timeout and aborts the request', async () => {
+    const { client, requests } = createHangingClient(20);
+    await expect(client.getTokenInfo(fakeAddress(1))).rejects.toBeInstanceOf(TimeoutError);
+    expect(requests[0].signal?.aborted).toBe(true);
+  });
+
+  it('lets a call override the timeout', async () => {
+    const { client } = createHangingClient(60000);
+    await expect(client.getTokenInfo(fakeAddress(1), { timeoutMs: 20 })).rejects.toMatchObject({ timeoutMs: 20 });
+  });
+
+  it('aborts a call when its signal aborts', async () => {
+    const { client, requests } = createHangingClient();
+    const controller = new AbortController();
+    const call = client.getTokenInfo(fakeAddress(1), { signal: controller.signal });
+    controller.abort();
+    await expect(call).rejects.toBeInstanceOf(AbortError);
+    expect(requests[0].signal?.aborted).toBe(true);
+  });
+
+  it('rejects right away when the signal is already aborted', async () => {
+    const { client, requests } = createHangingClient();
+    const controller = new AbortController();
+    controller.abort();
+    await expect(client.getTokenInfo(fakeAddress(1), { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+    expect(requests.every((request) => request.signal?.aborted)).toBe(true);
+  });
+});
@@ -0,0 +1,66 @@
+import { chunk, resolveChunkSize, runChunks } from '../chunking';
+import { ValidationError } from '../errors';
+import { Client } from '../data-api';
+import { fakeAddress, reply, stubFetch } from './helpers';
+
+const addresses = (count: number) => Array.from({ length: count }, (_, index) => fakeAddress(index));
+
+describe('chunk', () => {
+  it('splits items into chunks of the given size', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it.each([0, -1, 1.5, NaN])('rejects a chunk size of %p', (size) => {
+    expect(() => chunk([1], size)).toThrow(ValidationError);
+    expect(() => resolveChunkSize(size, 20)).toThrow(ValidationError);
+  });
+
+  it('caps the chunk size at the endpoint limit', () => {
+    expect(resolveChunkSize(undefined, 20)).toBe(20);
+    expect(resolveChunkSize(50, 20)).toBe(20);
+    expect(resolveChunkSize(5, 20)).toBe(5);
+  });
+});
+
+describe('runChunks', () => {
+  it('keeps results in order and collects failures', async () => {
+    const error = new Error('failed');
+    const { results, failures } = await runChunks([['a'], ['b'], ['c']], 2, async ([address]) => {
+      if (address === 'b') throw error;
+      return address;
+    });
+    expect(results).toEqual(['a', 'c']);
+    expect(failures).toEqual([{ index: 1, tokenAddresses: ['b'], error }]);
+  });
+});
+
+describe('Client chunked calls', () => {
+  it('splits token lookups into requests of up to 20 addresses', async () => {
+    const requests = stubFetch((request) =>
+      (request.body as { tokens: string[] }).tokens.map((mint) => ({ token: { mint } }))
+    );
+    const client = new Client({ apiKey: 'test-api-key' });
+    const mints = addresses(45);
+    const { data, failures } = await client.getMultipleTokensChunked(mints);
+
+    expect(failures).toEqual([]);
+    expect(data.map((token) => token.token.mint)).toEqual(mints);
+    const sizes = requests.map((request) => (request.body as { tokens: string[] }).tokens.length);
+    expect(sizes).toEqual([20, 20, 5]);
+  });
+
+  it('reports failed price chunks without failing the call', async () => {
+    const mints = addresses(4);
+    stubFetch((request) => {
+      const tokens = (request.query.get('tokens') || '').split(',');
+      return tokens.includes(mints[2])
+        ? reply(500)
+        : tokens.reduce((prices, token) => ({ ...prices, [token]: { price: 1 } }), {});
+    });
+    const client = new Client({ apiKey: 'test-api-key' });
+
+    const { data, failures } = await client.getMultiplePricesChunked(mints, false, { chunkSize: 2 });
+    expect(Object.keys(data)).toEqual(mints.slice(0, 2));
+    expect(failures.map((failure) => failure.tokenAddresses)).toEqual([mints.slice(2)]);
+  });
+});
@@ -0,0 +1,100 @@
+import { CircuitBreaker } from '../circuit-breaker';
+import { CircuitOpenError, NetworkError, QueueFullError } from '../errors';
+import { RateLimiter } from '../rate-limiter';
+import { createMockClient, fakeAddress } from '../testing';
+
+const ROUTE = '/tokens/:mint';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  /**
+   * A breaker whose circuit for ROUTE has just turned half-open
+   */
+  const halfOpen = () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.record(breaker.acquire(ROUTE), new NetworkError('down'));
+    jest.advanceTimersByTime(1000);
+    return breaker;
+  };
+
+  it('closes after a successful trial and reopens after a failed one', () => {
+    const breaker = halfOpen();
+    breaker.record(breaker.acquire(ROUTE));
+    expect(breaker.snapshot[ROUTE].state).toBe('closed');
+
+    breaker.record(breaker.acquire(ROUTE), new NetworkError('down'));
+    jest.advanceTimersByTime(1000);
+    breaker.record(breaker.acquire(ROUTE), new NetworkError('still down'));
+    expect(breaker.snapshot[ROUTE].state).toBe('open');
+  });
+
+  it('ignores requests that started before the circuit turned half-open', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    const early = breaker.acquire(ROUTE);
+    breaker.record(breaker.acquire(ROUTE), new NetworkError('down'));
+    jest.advanceTimersByTime(1000);
+    const trial = breaker.acquire(ROUTE);
+
+    breaker.record(early);
+    expect(breaker.snapshot[ROUTE].state).toBe('half-open');
+    expect(() => breaker.acquire(ROUTE)).toThrow(CircuitOpenError);
+
+    breaker.record(trial);
+    expect(breaker.snapshot[ROUTE].state).toBe('closed');
+  });
+
+  it('releases a trial that failed without reaching the server', () => {
+    const breaker = halfOpen();
+    breaker.record(breaker.acquire(ROUTE), new QueueFullError('full'));
+    expect(breaker.snapshot[ROUTE].state).toBe('half-open');
+    expect(() => breaker.acquire(ROUTE)).not.toThrow();
+  });
+
+  it('checks a circuit without claiming a trial slot', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    expect(() => breaker.check(ROUTE)).not.toThrow();
+    breaker.record(breaker.acquire(ROUTE), new NetworkError('down'));
+    expect(() => breaker.check(ROUTE)).toThrow(CircuitOpenError);
+
+    jest.advanceTimersByTime(1000);
+    breaker.check(ROUTE);
+    const trial = breaker.acquire(ROUTE);
+    expect(() => breaker.check(ROUTE)).toThrow(CircuitOpenError);
+    breaker.record(trial);
+    expect(() => breaker.check(ROUTE)).not.toThrow();
+  });
+});
+
+describe('Client circuit breaker', () => {
+  it('leaves an open circuit alone when the rate limiter rejects a call', async () => {
+    const { client, api } = createMockClient({
+      circuitBreaker: { failureThreshold: 1, cooldownMs: 0 },
+      rateLimit: { requestsPerSecond: 1, maxQueueLength: 0 },
+    });
+    api.fail(ROUTE, 500);
+
+    await expect(client.getTokenInfo(fakeAddress(1))).rejects.toMatchObject({ status: 500 });
+    await expect(client.getTokenInfo(fakeAddress(1))).rejects.toBeInstanceOf(QueueFullError);
+    expect(client.circuits[ROUTE].state).toBe('open');
+    expect(api.requestsFor(ROUTE)).toHaveLength(1);
+  });
+
+  it('rejects on an open circuit before taking a rate limit token or counting a key or URL request', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 100, burst: 10 });
+    const acquire = jest.spyOn(limiter, 'acquire');
+    const { client, api } = createMockClient({
+      circuitBreaker: { failureThreshold: 1, cooldownMs: 60000 },
+      rateLimit: limiter,
+    });
+    api.fail(ROUTE, 500);
+    await expect(client.getTokenInfo(fakeAddress(1))).rejects.toMatchObject({ status: 500 });
+
+    await expect(client.getTokenInfo(fakeAddress(1))).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(acquire).toHaveBeenCalledTimes(1);
+    expect(client.apiKeyHealth.map(({ requests }) => requests)).toEqual([1]);
+    expect(client.baseUrlHealth.map(({ requests }) => requests)).toEqual([1]);
+    expect(api.requestsFor(ROUTE)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,43 @@
+import { run } from '../cli/run';
+import { MockRequest, buildSearchResponse, buildSearchResult, buildTokenDetail, createMockClient } from '../testing';
+
+/**
+ * Runs the CLI against the mock API
+ */
+const runCli = async (argv: string[], api = createMockClient()) => {
+  let stdout = '';
+  let stderr = '';
+  const code = await run(argv, {
+    env: { SOLANA_TRACKER_API_KEY: 'test-api-key', SOLANA_TRACKER_CONFIG: undefined },
+    stdout: { write: (chunk: string) => (stdout += chunk) },
+    stderr: { write: (chunk: string) => (stderr += chunk) },
+    createClient: () => api.client,
+  });
+  return { code, stdout, stderr, api: api.api };
+};
+
+describe('cli', () => {
+  it('stops paginating the latest tokens after the last page', async () => {
+    const { code, stdout, api } = await runCli(['token', 'latest', '--all', '-o', 'ndjson']);
+    expect(code).toBe(0);
+    const pages = api.requestsFor('/tokens/latest').map((request) => Number(request.query.get('page')));
+    expect(pages).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(stdout.trim().split('\n')).toHaveLength(10);
+  });
+
+  it('stops paginating the latest tokens on an empty page', async () => {
+    const mock = createMockClient();
+    mock.api.on('/tokens/latest', (request: MockRequest) => (request.query.get('page') === '3' ? [] : [buildTokenDetail()]));
+    const { code, api } = await runCli(['token', 'latest', '--all'], mock);
+    expect(code).toBe(0);
+    expect(api.requestsFor('/tokens/latest')).toHaveLength(3);
+  });
+
+  it('prints the rows of a response for ndjson output', async () => {
+    const mock = createMockClient();
+    mock.api.on('/search', buildSearchResponse({ data: [buildSearchResult(), buildSearchResult()] }));
+    const { code, stdout } = await runCli(['search', 'bonk', '-o', 'ndjson'], mock);
+    expect(code).toBe(0);
+    expect(stdout.trim().split('\n')).toHaveLength(2);
+  });
+});
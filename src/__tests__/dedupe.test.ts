@@ -0,0 +1,45 @@
+import { Client } from '../data-api';
+import { fakeAddress, stubFetch } from './helpers';
+
+const createClient = () => {
+  const requests = stubFetch(() => ({ token: { name: 'Token' } }));
+  const client = new Client({ apiKey: 'test-api-key' });
+  const requestsFor = (path: string) => requests.filter((request) => request.path === path);
+  return { client, requestsFor };
+};
+
+describe('request coalescing', () => {
+  it('sends one request for identical concurrent calls', async () => {
+    const { client, requestsFor } = createClient();
+    const mint = fakeAddress(1);
+    await Promise.all([client.getTokenInfo(mint), client.getTokenInfo(mint), client.getTokenInfo(mint)]);
+    expect(requestsFor(`/tokens/${mint}`)).toHaveLength(1);
+    expect(client.getDedupeStats()).toEqual({ coalesced: 2, inFlight: 0 });
+  });
+
+  it('gives every caller its own copy of the result', async () => {
+    const { client } = createClient();
+    const mint = fakeAddress(1);
+    const [first, second] = await Promise.all([client.getTokenInfo(mint), client.getTokenInfo(mint)]);
+    first.token.name = 'changed';
+    expect(second.token.name).not.toBe('changed');
+  });
+
+  it('does not coalesce calls with their own timeout or signal', async () => {
+    const { client, requestsFor } = createClient();
+    const mint = fakeAddress(1);
+    await Promise.all([
+      client.getTokenInfo(mint),
+      client.getTokenInfo(mint, { timeoutMs: 5000 }),
+      client.getTokenInfo(mint, { signal: new AbortController().signal }),
+    ]);
+    expect(requestsFor(`/tokens/${mint}`)).toHaveLength(3);
+  });
+
+  it('can be turned off per call', async () => {
+    const { client, requestsFor } = createClient();
+    const mint = fakeAddress(1);
+    await Promise.all([client.getTokenInfo(mint), client.getTokenInfo(mint, { dedupe: false })]);
+    expect(requestsFor(`/tokens/${mint}`)).toHaveLength(2);
+  });
+});
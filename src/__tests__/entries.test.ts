@@ -0,0 +1,43 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { build } from 'tsup';
+
+describe('package entries', () => {
+  let outDir: string;
+
+  beforeAll(async () => {
+    outDir = mkdtempSync(join(tmpdir(), 'data-api-build-'));
+    // Loads tsup.config.ts, so the test covers the published build settings
+    await build({ outDir, dts: false, silent: true });
+  }, 60000);
+
+  afterAll(() => {
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('shares classes between the main and testing entries in the CommonJS build', async () => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const main = require(join(outDir, 'index.js'));
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const testing = require(join(outDir, 'testing', 'index.js'));
+
+    const { client } = testing.createMockClient();
+    expect(client).toBeInstanceOf(main.Client);
+    await expect(client.getTokenInfo('not-a-mint')).rejects.toBeInstanceOf(main.ValidationError);
+  });
+
+  it('saves and loads recordings from the ES module build', () => {
+    const entry = pathToFileURL(join(outDir, 'testing', 'index.mjs')).href;
+    const file = join(outDir, 'recording.json');
+    const script = [
+      `import { Recorder, Replayer } from ${JSON.stringify(entry)};`,
+      `new Recorder().save(${JSON.stringify(file)});`,
+      `Replayer.load(${JSON.stringify(file)}).assertAllUsed();`,
+    ].join('\n');
+
+    expect(() => execFileSync(process.execPath, ['--input-type=module', '-e', script], { stdio: 'pipe' })).not.toThrow();
+  });
+});
@@ -0,0 +1,65 @@
+import { Client } from '../data-api';
+import {
+  AuthenticationError,
+  DataApiError,
+  NotFoundError,
+  RateLimitError,
+  ResponseParseError,
+  createHttpError,
+} from '../errors';
+import { fakeAddress, reply, stubFetch } from './helpers';
+
+describe('createHttpError', () => {
+  it.each([
+    [401, AuthenticationError],
+    [403, AuthenticationError],
+    [404, NotFoundError],
+    [429, RateLimitError],
+    [500, DataApiError],
+  ])('maps status %i to %p', (status, type) => {
+    const error = createHttpError(status, 'Status', undefined, {});
+    expect(error).toBeInstanceOf(type);
+    expect(error.status).toBe(status);
+  });
+
+  it('includes the message of the API in the error message', () => {
+    const error = createHttpError(400, 'Bad Request', undefined, { body: { error: 'Invalid mint' } });
+    expect(error.message).toBe('API request failed: 400 Bad Request - Invalid mint');
+  });
+});
+
+describe('Client errors', () => {
+  it('keep the response body, headers, request id and endpoint', async () => {
+    stubFetch(() => reply(500, { error: 'Database offline' }, { 'X-Request-Id': 'req-1' }));
+    const client = new Client({ apiKey: 'test-api-key' });
+    const mint = fakeAddress(1);
+
+    const error = await client.getTokenInfo(mint).catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(DataApiError);
+    expect(error).toMatchObject({
+      status: 500,
+      body: { error: 'Database offline' },
+      requestId: 'req-1',
+      endpoint: `/tokens/${mint}`,
+      method: 'GET',
+    });
+    expect((error as DataApiError).headers?.['x-request-id']).toBe('req-1');
+  });
+
+  it('read Retry-After into rate limit errors', async () => {
+    stubFetch(() => reply(429, { error: 'Too many requests' }, { 'Retry-After': '3' }));
+    const client = new Client({ apiKey: 'test-api-key' });
+    await expect(client.getTokenInfo(fakeAddress(1))).rejects.toMatchObject({ retryAfter: 3 });
+  });
+
+  it('report invalid JSON with the raw body and parse error', async () => {
+    const client = new Client({
+      apiKey: 'test-api-key',
+      fetch: async () => new Response('<html>', { status: 200 }),
+    });
+    const error = await client.getTokenInfo(fakeAddress(1)).catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(ResponseParseError);
+    expect(error).toMatchObject({ status: 200, body: '<html>' });
+    expect((error as ResponseParseError).cause).toBeInstanceOf(SyntaxError);
+  });
+});
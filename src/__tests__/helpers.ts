@@ -0,0 +1,107 @@
+// Shared helpers for the unit tests: deterministic addresses and a stubbed global fetch
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Creates a valid, deterministic 32-byte address
+ * @param seed Small number distinguishing the address
+ * @returns The base58 encoded address
+ */
+export function fakeAddress(seed = 0): string {
+  const bytes = Array.from({ length: 32 }, (_, index) => (index * 7 + seed * 13 + 1) % 256);
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = (carry / 58) | 0;
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = (carry / 58) | 0;
+    }
+  }
+  return digits
+    .reverse()
+    .map((digit) => BASE58_ALPHABET[digit])
+    .join('');
+}
+
+/**
+ * A request received by the stubbed fetch
+ */
+export interface StubRequest {
+  url: string;
+  method: string;
+  /** Path without the base URL and query string */
+  path: string;
+  query: URLSearchParams;
+  /** Request headers with lower-case names */
+  headers: Record<string, string>;
+  /** Parsed JSON body, if any */
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+/**
+ * A response with an explicit status or headers, created with `reply()`
+ */
+export interface StubReply {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Produces the response for a request: either the response body or a StubReply
+ */
+export type StubHandler = (request: StubRequest) => unknown | Promise<unknown>;
+
+const replies = new WeakSet<object>();
+
+/**
+ * Creates a response with an explicit status and headers
+ * @param status HTTP status
+ * @param body Response body, serialized as JSON
+ * @param headers Response headers
+ * @returns A value handlers can return instead of a plain body
+ */
+export function reply(status: number, body?: unknown, headers: Record<string, string> = {}): StubReply {
+  const response = { status, body, headers };
+  replies.add(response);
+  return response;
+}
+
+/**
+ * Replaces the global fetch for the current test, restored by `restoreMocks`
+ * @param handler Answers each request, every request gets `{}` by default
+ * @returns Every request received, in order
+ */
+export function stubFetch(handler: StubHandler = () => ({})): StubRequest[] {
+  const requests: StubRequest[] = [];
+  jest.spyOn(globalThis, 'fetch').mockImplementation(async (input, init = {}) => {
+    const url = new URL(String(input));
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, name) => (headers[name] = value));
+    const request: StubRequest = {
+      url: url.toString(),
+      method: init.method || 'GET',
+      path: url.pathname,
+      query: url.searchParams,
+      headers,
+      body: typeof init.body === 'string' && init.body ? JSON.parse(init.body) : undefined,
+      signal: init.signal || undefined,
+    };
+    requests.push(request);
+
+    const result = await handler(request);
+    const { status, body, headers: responseHeaders } =
+      result && typeof result === 'object' && replies.has(result) ? (result as StubReply) : { status: 200, body: result };
+    return new Response(body === undefined ? null : JSON.stringify(body), {
+      status,
+      headers: { 'content-type': 'application/json', ...responseHeaders },
+    });
+  });
+  return requests;
+}
@@ -0,0 +1,185 @@
+import { Client, DataApiConfig } from '../data-api';
+import { Datastream } from '../datastream';
+import { RequestMetrics, StreamMessageMetrics, TelemetryAdapter, TelemetryAttributes } from '../instrumentation';
+import { StubHandler, fakeAddress, reply, stubFetch } from './helpers';
+
+interface Recorded {
+  name: string;
+  value: number;
+  attributes?: TelemetryAttributes;
+}
+
+interface RecordedSpan {
+  name: string;
+  attributes: Record<string, unknown>;
+  status?: number;
+  ended: boolean;
+}
+
+/**
+ * Tracer and meter recording everything they receive
+ */
+const createTelemetry = () => {
+  const recorded: Recorded[] = [];
+  const spans: RecordedSpan[] = [];
+  const instrument = (name: string) => ({
+    add: (value: number, attributes?: TelemetryAttributes) => recorded.push({ name, value, attributes }),
+    record: (value: number, attributes?: TelemetryAttributes) => recorded.push({ name, value, attributes }),
+  });
+  const adapter: TelemetryAdapter = {
+    tracer: {
+      startSpan: (name, options) => {
+        const span: RecordedSpan = { name, attributes: { ...options?.attributes }, ended: false };
+        spans.push(span);
+        return {
+          setAttribute: (key, value) => (span.attributes[key] = value),
+          setStatus: ({ code }) => (span.status = code),
+          recordException: () => undefined,
+          end: () => (span.ended = true),
+        };
+      },
+    },
+    meter: { createCounter: instrument, createHistogram: instrument },
+  };
+  return { adapter, recorded, spans };
+};
+
+/**
+ * WebSocket double that opens right away and records what is sent
+ */
+class FakeSocket {
+  static instances: FakeSocket[] = [];
+  readyState = 1;
+  sent: string[] = [];
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeSocket.instances.push(this);
+    setTimeout(() => this.onopen?.({}));
+  }
+
+  send(data: string): void {
+    this.sent.push(data);
+  }
+
+  close(): void {
+    this.readyState = 3;
+  }
+}
+
+const createClient = (config: Partial<DataApiConfig> = {}, handler: StubHandler = () => ({ token: {} })) => {
+  stubFetch(handler);
+  return new Client({ apiKey: 'test-api-key', ...config });
+};
+
+describe('Client metrics', () => {
+  const mint = fakeAddress(1);
+
+  it('emits the metrics of a call', async () => {
+    const client = createClient();
+    const metrics: RequestMetrics[] = [];
+    client.on('metrics', (event: RequestMetrics) => metrics.push(event));
+
+    await client.getTokenInfo(mint);
+    expect(metrics).toHaveLength(1);
+    expect(metrics[0]).toMatchObject({
+      route: '/tokens/:mint',
+      endpoint: `/tokens/${mint}`,
+      method: 'GET',
+      status: 200,
+      attempts: 1,
+      retries: 0,
+      cacheHit: false,
+      coalesced: false,
+    });
+    expect(metrics[0].bytes).toBeGreaterThan(0);
+  });
+
+  it('counts retries and rate limit hits', async () => {
+    let calls = 0;
+    const client = createClient({ retry: { baseDelayMs: 1, jitter: 0 } }, () =>
+      ++calls === 1 ? reply(429, { error: 'Too Many Requests' }, { 'Retry-After': '0' }) : { token: {} }
+    );
+    const metrics: RequestMetrics[] = [];
+    client.on('metrics', (event: RequestMetrics) => metrics.push(event));
+
+    await client.getTokenInfo(mint);
+    expect(metrics[0]).toMatchObject({ attempts: 2, retries: 1, rateLimitHits: 1, status: 200 });
+  });
+
+  it('reports cache hits without an HTTP request', async () => {
+    const client = createClient({ cache: true });
+    const metrics: RequestMetrics[] = [];
+    client.on('metrics', (event: RequestMetrics) => metrics.push(event));
+
+    await client.getTokenInfo(mint);
+    await client.getTokenInfo(mint);
+    expect(metrics[1]).toMatchObject({ cacheHit: true, attempts: 0 });
+  });
+
+  it('reports the error of a failed call', async () => {
+    const client = createClient({}, () => reply(404, { error: 'Not Found' }));
+    const metrics: RequestMetrics[] = [];
+    client.on('metrics', (event: RequestMetrics) => metrics.push(event));
+
+    await expect(client.getTokenInfo(mint)).rejects.toThrow();
+    expect(metrics[0].status).toBe(404);
+    expect(metrics[0].error).toBeInstanceOf(Error);
+  });
+
+  it('creates a span and records metrics with the telemetry adapter', async () => {
+    const { adapter, recorded, spans } = createTelemetry();
+    let failing = false;
+    const client = createClient({ telemetry: adapter }, () => (failing ? reply(500) : { token: {} }));
+    await client.getTokenInfo(mint);
+    failing = true;
+    await expect(client.getTokenInfo(fakeAddress(2))).rejects.toThrow();
+
+    expect(spans.map(({ name }) => name)).toEqual(['GET /tokens/:mint', 'GET /tokens/:mint']);
+    expect(spans.every(({ ended }) => ended)).toBe(true);
+    expect(spans.map(({ status }) => status)).toEqual([1, 2]);
+    expect(spans[0].attributes).toMatchObject({
+      'http.route': '/tokens/:mint',
+      'server.address': 'data.solanatracker.io',
+      'http.response.status_code': 200,
+    });
+
+    const requests = recorded.filter(({ name }) => name === 'solana_tracker.client.requests');
+    expect(requests.map(({ attributes }) => attributes?.['http.response.status_code'])).toEqual([200, 500]);
+  });
+});
+
+describe('Datastream metrics', () => {
+  it('counts messages per room and reports them to the meter', async () => {
+    const { adapter, recorded } = createTelemetry();
+    FakeSocket.instances = [];
+    jest.spyOn(globalThis, 'WebSocket').mockImplementation((url) => new FakeSocket(String(url)) as unknown as WebSocket);
+    const datastream = new Datastream({ wsUrl: 'wss://datastream.test', autoReconnect: false, telemetry: adapter });
+    const metrics: StreamMessageMetrics[] = [];
+    datastream.on('metrics', (event: StreamMessageMetrics) => metrics.push(event));
+
+    const mint = fakeAddress(3);
+    // Subscribing starts connecting
+    const connected = new Promise((resolve) => datastream.once('connected', resolve));
+    datastream.subscribe.tx.token(mint).on(() => undefined);
+    await connected;
+
+    const room = `transaction:${mint}`;
+    const publish = () =>
+      FakeSocket.instances[1].onmessage?.({ data: JSON.stringify({ type: 'message', room, data: { tx: 'a' } }) });
+    publish();
+    publish();
+    datastream.disconnect();
+
+    expect(metrics.map(({ duplicate }) => duplicate)).toEqual([false, true]);
+    expect(datastream.getMessageStats()[room].messages).toBe(2);
+
+    const messages = recorded.filter(({ name }) => name === 'solana_tracker.datastream.messages');
+    expect(messages).toHaveLength(2);
+    // Only the room type is used as an attribute
+    expect(messages[0].attributes).toMatchObject({ room: 'transaction', socket: 'transaction' });
+  });
+});
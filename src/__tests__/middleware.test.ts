@@ -0,0 +1,73 @@
+import { RequestContext, compose } from '../middleware';
+import { Client } from '../data-api';
+import { fakeAddress, stubFetch } from './helpers';
+
+const context = (): RequestContext => ({
+  endpoint: '/tokens/x',
+  baseUrl: 'https://api.test',
+  method: 'GET',
+  headers: {},
+  state: {},
+});
+
+describe('compose', () => {
+  it('runs middleware onion style around the handler', async () => {
+    const order: string[] = [];
+    const run = compose(
+      [
+        async (_, next) => {
+          order.push('outer in');
+          const result = await next();
+          order.push('outer out');
+          return result;
+        },
+        async (_, next) => {
+          order.push('inner');
+          return next();
+        },
+      ],
+      async () => {
+        order.push('handler');
+        return 'done';
+      }
+    );
+    await expect(run(context())).resolves.toBe('done');
+    expect(order).toEqual(['outer in', 'inner', 'handler', 'outer out']);
+  });
+
+  it('rejects when next() is called twice', async () => {
+    const run = compose(
+      [
+        async (_, next) => {
+          await next();
+          return next();
+        },
+      ],
+      async () => 'done'
+    );
+    await expect(run(context())).rejects.toThrow('next() called multiple times');
+  });
+});
+
+describe('Client middleware', () => {
+  it('can change the request and transform the response', async () => {
+    const requests = stubFetch();
+    const client = new Client({ apiKey: 'test-api-key' });
+    client.use(async (request, next) => {
+      request.headers['x-trace-id'] = 'trace-1';
+      const result = await next();
+      return { ...(result as object), tagged: true };
+    });
+
+    await expect(client.getTokenInfo(fakeAddress(1))).resolves.toMatchObject({ tagged: true });
+    expect(requests[0].headers['x-trace-id']).toBe('trace-1');
+  });
+
+  it('can answer without sending a request', async () => {
+    const requests = stubFetch();
+    const client = new Client({ apiKey: 'test-api-key' });
+    client.use(async () => ({ cached: true }));
+    await expect(client.getTokenInfo(fakeAddress(1))).resolves.toEqual({ cached: true });
+    expect(requests).toHaveLength(0);
+  });
+});
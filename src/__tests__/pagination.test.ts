@@ -0,0 +1,138 @@
+import { Client } from '../data-api';
+import { Page, Paginator } from '../pagination';
+import { StubHandler, fakeAddress, stubFetch } from './helpers';
+
+// Three pages of numbers: [1, 2], [3, 4], [5]
+const pages: Record<number, Page<number>> = {
+  1: { items: [1, 2], next: 2 },
+  2: { items: [3, 4], next: 3 },
+  3: { items: [5] },
+};
+
+const numberPaginator = (options = {}) => {
+  const loadPage = jest.fn(async (cursor: number | undefined) => pages[cursor ?? 1]);
+  return { loadPage, paginator: new Paginator<number>(loadPage, options) };
+};
+
+const TRADE_TIME = 1700000000000;
+
+const trades = (count: number, extra: object = {}) => ({
+  trades: Array.from({ length: count }, (_, index) => ({ tx: `tx${index}`, time: TRADE_TIME - index })),
+  ...extra,
+});
+
+const createClient = (handler: StubHandler) => {
+  const requests = stubFetch(handler);
+  return { client: new Client({ apiKey: 'test-api-key' }), requests };
+};
+
+describe('Paginator', () => {
+  it('walks every page until there is no next cursor', async () => {
+    const { loadPage, paginator } = numberPaginator();
+    expect(await paginator.toArray()).toEqual([1, 2, 3, 4, 5]);
+    expect(loadPage.mock.calls.map(([cursor]) => cursor)).toEqual([undefined, 2, 3]);
+    expect(paginator.cursor).toBeUndefined();
+  });
+
+  it('stops on an empty page even if it has a next cursor', async () => {
+    const loadPage = jest.fn(async (): Promise<Page<number>> => ({ items: [], next: 2 }));
+    expect(await new Paginator(loadPage).toArray()).toEqual([]);
+    expect(loadPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops after maxItems without loading more pages', async () => {
+    const { loadPage, paginator } = numberPaginator({ maxItems: 3 });
+    expect(await paginator.toArray()).toEqual([1, 2, 3]);
+    expect(loadPage).toHaveBeenCalledTimes(2);
+    expect(paginator.itemsYielded).toBe(3);
+  });
+
+  it('stops after maxPages', async () => {
+    const { paginator } = numberPaginator({ maxPages: 2 });
+    expect(await paginator.toArray()).toEqual([1, 2, 3, 4]);
+    expect(paginator.pagesFetched).toBe(2);
+  });
+
+  it('stops before the first item matching stopWhen', async () => {
+    const { paginator } = numberPaginator({ stopWhen: (item: number) => item === 4 });
+    expect(await paginator.toArray()).toEqual([1, 2, 3]);
+    expect(paginator.cursor).toBeUndefined();
+  });
+
+  it('resumes from a saved cursor', async () => {
+    const first = numberPaginator();
+    for await (const item of first.paginator) {
+      if (item === 3) break;
+    }
+    expect(first.paginator.cursor).toEqual({ cursor: 2, offset: 1 });
+
+    const { loadPage, paginator } = numberPaginator({ resumeFrom: first.paginator.cursor });
+    expect(await paginator.toArray()).toEqual([4, 5]);
+    expect(loadPage.mock.calls[0][0]).toBe(2);
+  });
+});
+
+describe('Client pagination', () => {
+  const mint = fakeAddress(1);
+
+  it('follows nextCursor while hasNextPage is set', async () => {
+    const { client, requests } = createClient(({ query }) =>
+      query.get('cursor') === '42' ? trades(1, { hasNextPage: false }) : trades(2, { hasNextPage: true, nextCursor: 42 })
+    );
+
+    expect(await client.iterateTokenTrades(mint).toArray()).toHaveLength(3);
+    expect(requests.map(({ query }) => query.get('cursor'))).toEqual([null, '42']);
+  });
+
+  it('stops at the first trade older than stopAtTime', async () => {
+    const { client, requests } = createClient(() => ({
+      trades: [{ time: TRADE_TIME }, { time: TRADE_TIME - 5000 }],
+      hasNextPage: true,
+      nextCursor: 1,
+    }));
+
+    expect(await client.iterateTokenTrades(mint, { stopAtTime: TRADE_TIME - 1000 }).toArray()).toHaveLength(1);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('does not request another search page after a partial page', async () => {
+    const { client, requests } = createClient(() => ({ status: 'success', data: [{ mint }] }));
+    expect(await client.iterateSearch({ query: 'sol', limit: 2 }).toArray()).toHaveLength(1);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('requests the next search page after a full page', async () => {
+    const { client, requests } = createClient(({ query }) => ({
+      status: 'success',
+      data: query.get('page') === '1' ? [{ mint }, { mint }] : [],
+    }));
+
+    expect(await client.iterateSearch({ query: 'sol', limit: 2 }).toArray()).toHaveLength(2);
+    expect(requests.map(({ query }) => query.get('page'))).toEqual(['1', '2']);
+  });
+
+  it('uses the default search limit as the page size when none is given', async () => {
+    const { client, requests } = createClient(({ query }) => ({
+      status: 'success',
+      data: Array.from({ length: query.get('page') === '1' ? 100 : 99 }, () => ({ mint })),
+    }));
+
+    expect(await client.iterateSearch({ query: 'sol' }).toArray()).toHaveLength(199);
+    expect(requests.map(({ query }) => query.get('page'))).toEqual(['1', '2']);
+  });
+
+  it('does not request another top traders page after a partial page', async () => {
+    const { client, requests } = createClient(({ path }) => ({
+      wallets: Array.from({ length: path.endsWith('/1') ? 100 : 3 }, () => ({ wallet: mint })),
+    }));
+
+    expect(await client.iterateTopTraders().toArray()).toHaveLength(103);
+    expect(requests.map(({ path }) => path)).toEqual(['/top-traders/all/1', '/top-traders/all/2']);
+  });
+
+  it('does not request another wallet page after a partial page', async () => {
+    const { client, requests } = createClient(() => ({ tokens: [{ token: { mint } }] }));
+    expect(await client.iterateWalletTokens(fakeAddress(2)).toArray()).toHaveLength(1);
+    expect(requests).toHaveLength(1);
+  });
+});
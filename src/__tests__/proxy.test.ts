@@ -0,0 +1,75 @@
+import { Server, createServer, request } from 'http';
+import { AddressInfo } from 'net';
+import { Client } from '../data-api';
+import { createProxyHandler } from '../proxy';
+import { MockDataApi, fakeAddress } from '../testing';
+import { createFetchResponse } from '../testing/mock-api';
+import { FetchLike } from '../transport';
+
+describe('createProxyHandler', () => {
+  let server: Server;
+  let api: MockDataApi;
+  let fetchImpl: FetchLike;
+
+  /**
+   * Sends a GET with the path exactly as given; fetch would normalize dot segments first
+   */
+  const get = (path: string): Promise<number> =>
+    new Promise((resolve, reject) => {
+      const { port } = server.address() as AddressInfo;
+      request({ host: '127.0.0.1', port, path }, (res) => {
+        res.resume();
+        resolve(res.statusCode || 0);
+      })
+        .on('error', reject)
+        .end();
+    });
+
+  beforeEach(async () => {
+    api = new MockDataApi();
+    fetchImpl = api.fetch;
+    const client = new Client({
+      apiKey: 'test-api-key',
+      baseUrl: 'https://data.solanatracker.test',
+      fetch: (url, init) => fetchImpl(url, init),
+    });
+    server = createServer(createProxyHandler({ client, rateLimit: false }));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('forwards allowed routes', async () => {
+    const mint = fakeAddress(1);
+    expect(await get(`/tokens/${mint}`)).toBe(200);
+    expect(new URL(api.requests[0].url).pathname).toBe(`/tokens/${mint}`);
+  });
+
+  it('forwards the query string', async () => {
+    expect(await get('/search?query=bonk&limit=5')).toBe(200);
+    expect(api.requests[0].query.get('query')).toBe('bonk');
+    expect(api.requests[0].query.get('limit')).toBe('5');
+  });
+
+  it.each([
+    `/trades/%2e%2e/pnl/${fakeAddress(1)}`,
+    '/tokens/%2E%2E/holders',
+    `/tokens/..%2F..%2Fpnl%2F${fakeAddress(1)}/holders`,
+    '/tokens/./holders',
+  ])('rejects %s without calling the API', async (path) => {
+    expect(await get(path)).toBe(403);
+    expect(api.requests).toHaveLength(0);
+  });
+
+  it('answers 502 when the API response cannot be parsed', async () => {
+    fetchImpl = async () => createFetchResponse(200, 'OK', { 'content-type': 'application/json' }, '<html>');
+    expect(await get(`/tokens/${fakeAddress(1)}`)).toBe(502);
+  });
+
+  it('passes on the status of API errors', async () => {
+    api.fail('/tokens/:mint', 404, { error: 'Token not found' });
+    expect(await get(`/tokens/${fakeAddress(1)}`)).toBe(404);
+  });
+});
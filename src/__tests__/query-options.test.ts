@@ -0,0 +1,62 @@
+import { Client } from '../data-api';
+import { fakeAddress, stubFetch } from './helpers';
+
+const mint = fakeAddress(1);
+const wallet = fakeAddress(2);
+
+/**
+ * A client recording the query string of every request it sends
+ */
+const createClient = () => {
+  const requests = stubFetch();
+  const client = new Client({ apiKey: 'test-api-key' });
+  const queriesSent = () => requests.map((request) => new URL(request.url).search);
+  return { client, queriesSent };
+};
+
+describe('options-object signatures', () => {
+  it('build the same trade query as positional arguments', async () => {
+    const { client, queriesSent } = createClient();
+    await client.getTokenTrades(mint, 42, true, false, true);
+    await client.getTokenTrades(mint, { cursor: 42, showMeta: true, hideArb: true });
+
+    const [positional, options] = queriesSent();
+    expect(options).toBe('?cursor=42&showMeta=true&hideArb=true');
+    expect(positional).toBe(options);
+  });
+
+  it('build the same chart query as positional arguments', async () => {
+    const { client, queriesSent } = createClient();
+    await client.getChartData(mint, '1h', 1700000000, 1700003600, true, false);
+    await client.getChartData(mint, {
+      type: '1h',
+      timeFrom: 1700000000,
+      timeTo: 1700003600,
+      marketCap: true,
+      removeOutliers: false,
+    });
+
+    const [positional, options] = queriesSent();
+    expect(options).toBe('?type=1h&time_from=1700000000&time_to=1700003600&marketCap=true&removeOutliers=false');
+    expect(positional).toBe(options);
+  });
+
+  it('build the same PnL query as positional arguments', async () => {
+    const { client, queriesSent } = createClient();
+    await client.getWalletPnL(wallet, true, false, true);
+    await client.getWalletPnL(wallet, { showHistoricPnL: true, hideDetails: true });
+
+    const [positional, options] = queriesSent();
+    expect(options).toBe('?showHistoricPnL=true&hideDetails=true');
+    expect(positional).toBe(options);
+  });
+
+  it('take per-call options from the options object', async () => {
+    const { client } = createClient();
+    const controller = new AbortController();
+    controller.abort();
+    await expect(client.getTokenTrades(mint, { cursor: 1, signal: controller.signal })).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+  });
+});
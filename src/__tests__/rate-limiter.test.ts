@@ -0,0 +1,47 @@
+import { AbortError, QueueFullError } from '../errors';
+import { RateLimiter } from '../rate-limiter';
+
+describe('RateLimiter', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('lets the burst through and queues the rest until tokens refill', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2, burst: 2 });
+    const released: number[] = [];
+    [1, 2, 3, 4].forEach((id) => limiter.acquire().then(() => released.push(id)));
+
+    await Promise.resolve();
+    expect(released).toEqual([1, 2]);
+    expect(limiter.queueDepth).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(released).toEqual([1, 2, 3]);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(released).toEqual([1, 2, 3, 4]);
+  });
+
+  it('rejects requests once the queue is full', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1, maxQueueLength: 1 });
+    await limiter.acquire();
+    const queued = limiter.acquire();
+    await expect(limiter.acquire()).rejects.toBeInstanceOf(QueueFullError);
+    await jest.advanceTimersByTimeAsync(1000);
+    await expect(queued).resolves.toBeUndefined();
+  });
+
+  it('removes aborted requests from the queue', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1 });
+    await limiter.acquire();
+    const controller = new AbortController();
+    const queued = limiter.acquire(controller.signal);
+    controller.abort();
+    await expect(queued).rejects.toBeInstanceOf(AbortError);
+    expect(limiter.queueDepth).toBe(0);
+  });
+
+  it('shares one limiter per key', () => {
+    const config = { requestsPerSecond: 1 };
+    expect(RateLimiter.shared('rate-limiter-test', config)).toBe(RateLimiter.shared('rate-limiter-test', config));
+    expect(() => new RateLimiter({ requestsPerSecond: 0 })).toThrow(RangeError);
+  });
+});
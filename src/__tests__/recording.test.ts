@@ -0,0 +1,99 @@
+import { Client } from '../data-api';
+import { Datastream } from '../datastream';
+import { FakeDatastreamServer, MockDataApi, Recorder, Replayer, UnmatchedRequestError, fakeAddress } from '../testing';
+
+const API_KEY = 'secret-api-key';
+const mint = fakeAddress(1);
+
+const clientFor = (fetch: Recorder['fetch']) =>
+  new Client({ apiKey: API_KEY, baseUrl: 'https://data.solanatracker.test', fetch });
+
+/**
+ * Records a token lookup and a price lookup against the mock API
+ */
+const recordCalls = async () => {
+  const api = new MockDataApi();
+  api.on('/price', () => ({ price: 1, note: `requested with ${API_KEY}` }));
+  const recorder = new Recorder({ fetch: api.fetch });
+  const client = clientFor(recorder.fetch);
+  await client.getTokenInfo(mint);
+  await client.getPrice(mint);
+  return recorder.toJSON();
+};
+
+describe('Recorder', () => {
+  it('records each exchange without the API key', async () => {
+    const recording = await recordCalls();
+    expect(recording.http.map(({ method, path, status }) => `${method} ${path} ${status}`)).toEqual([
+      `GET /tokens/${mint} 200`,
+      `GET /price?token=${mint} 200`,
+    ]);
+    expect(JSON.stringify(recording)).not.toContain(API_KEY);
+    expect(recording.http[1].body).toContain('[REDACTED]');
+  });
+});
+
+describe('Replayer', () => {
+  it('serves the recorded responses', async () => {
+    const recording = await recordCalls();
+    const replayer = new Replayer(recording);
+    const client = clientFor(replayer.fetch);
+
+    expect((await client.getTokenInfo(mint)).token.mint).toBe(mint);
+    expect(await client.getPrice(mint)).toMatchObject({ price: 1, note: 'requested with [REDACTED]' });
+    replayer.assertAllUsed();
+  });
+
+  it('reports recorded requests that were not replayed', async () => {
+    const replayer = new Replayer(await recordCalls());
+    await clientFor(replayer.fetch).getTokenInfo(mint);
+    expect(replayer.unused).toHaveLength(1);
+    expect(() => replayer.assertAllUsed()).toThrow(UnmatchedRequestError);
+  });
+
+  it('fails requests that are not in the recording', async () => {
+    const client = clientFor(new Replayer(await recordCalls()).fetch);
+    await expect(client.getTokenInfo(fakeAddress(2))).rejects.toThrow(UnmatchedRequestError);
+  });
+
+  it('serves repeated requests only when allowed', async () => {
+    const recording = await recordCalls();
+    const strict = clientFor(new Replayer(recording).fetch);
+    await strict.getTokenInfo(mint);
+    await expect(strict.getTokenInfo(mint)).rejects.toThrow(UnmatchedRequestError);
+
+    const lenient = clientFor(new Replayer(recording, { allowRepeats: true }).fetch);
+    await lenient.getTokenInfo(mint);
+    expect((await lenient.getTokenInfo(mint)).token.mint).toBe(mint);
+  });
+
+  it('replays recorded Datastream messages once the room is joined', async () => {
+    const server = new FakeDatastreamServer();
+    const recorder = new Recorder({ WebSocket: server.WebSocket });
+    const live = new Datastream({
+      wsUrl: 'wss://datastream.test',
+      WebSocket: recorder.WebSocket,
+      autoReconnect: false,
+    });
+    await live.connect();
+    live.subscribe.latest().on(() => undefined);
+    server.publish('latest', { id: 1 });
+    server.publish('latest', { id: 2 });
+    live.disconnect();
+
+    const replayer = new Replayer(recorder.toJSON(), { speed: Infinity });
+    const replayed = new Datastream({
+      wsUrl: 'wss://datastream.test',
+      WebSocket: replayer.WebSocket,
+      autoReconnect: false,
+    });
+    await replayed.connect();
+    const received = await new Promise<unknown[]>((resolve) => {
+      const messages: unknown[] = [];
+      replayed.subscribe.latest().on((data) => messages.push(data) === 2 && resolve(messages));
+    });
+    replayed.disconnect();
+
+    expect(received).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+});
@@ -0,0 +1,72 @@
+import { Client } from '../data-api';
+import { NetworkError, RateLimitError, ValidationError } from '../errors';
+import { getRetryDelay, parseRetryAfter, resolveRetryConfig, sleep } from '../retry';
+import { fakeAddress, reply, stubFetch } from './helpers';
+
+const config = resolveRetryConfig({ jitter: 0 })!;
+const networkError = () => new NetworkError('down');
+
+describe('getRetryDelay', () => {
+  it('backs off exponentially', () => {
+    expect(getRetryDelay(config, networkError(), 1, true)).toBe(500);
+    expect(getRetryDelay(config, networkError(), 2, true)).toBe(1000);
+  });
+
+  it('waits for the Retry-After duration of a rate limited request', () => {
+    expect(getRetryDelay(config, new RateLimitError('slow down', 7), 1, true)).toBe(7000);
+  });
+
+  it('gives up after the last attempt', () => {
+    expect(getRetryDelay(config, networkError(), 3, true)).toBeNull();
+  });
+
+  it('does not retry client errors', () => {
+    expect(getRetryDelay(config, new ValidationError('bad request'), 1, true)).toBeNull();
+  });
+
+  it('only retries non-idempotent requests when enabled', () => {
+    expect(getRetryDelay(config, networkError(), 1, false)).toBeNull();
+    expect(getRetryDelay({ ...config, retryNonIdempotent: true }, networkError(), 1, false)).toBe(500);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3')).toBe(3);
+    expect(parseRetryAfter(new Date(Date.now() + 10000).toUTCString())).toBeGreaterThanOrEqual(9);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
+
+describe('sleep', () => {
+  it('ends early when the signal aborts and removes its listener otherwise', async () => {
+    const controller = new AbortController();
+    const removed = jest.spyOn(controller.signal, 'removeEventListener');
+    await sleep(1, controller.signal);
+    expect(removed).toHaveBeenCalledWith('abort', expect.any(Function));
+
+    const pending = sleep(60000, controller.signal);
+    controller.abort();
+    await expect(pending).resolves.toBeUndefined();
+  });
+});
+
+describe('Client retries', () => {
+  it('retries a failed GET until it succeeds', async () => {
+    let calls = 0;
+    stubFetch(() => (++calls < 3 ? reply(503) : { ok: true }));
+    const client = new Client({ apiKey: 'test-api-key', retry: { baseDelayMs: 1 } });
+
+    await expect(client.getTokenInfo(fakeAddress(1))).resolves.toEqual({ ok: true });
+    expect(calls).toBe(3);
+  });
+
+  it('does not retry POST requests by default', async () => {
+    const requests = stubFetch(() => reply(503));
+    const client = new Client({ apiKey: 'test-api-key', retry: { baseDelayMs: 1 } });
+
+    await expect(client.getMultipleTokens([fakeAddress(1)])).rejects.toMatchObject({ status: 503 });
+    expect(requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,55 @@
+import { Client, DataApiConfig } from '../data-api';
+import { ResponseValidationError } from '../errors';
+import { s, validate } from '../schema';
+import { fakeAddress, stubFetch } from './helpers';
+
+const createClient = (validation: DataApiConfig['validation']) => {
+  stubFetch(() => ({ holders: 'many' }));
+  return new Client({ apiKey: 'test-api-key', validation });
+};
+
+describe('validate', () => {
+  const schema = s.object({
+    name: s.string(),
+    price: s.nullable(s.number()),
+    tags: s.optional(s.array(s.string())),
+  });
+
+  it('accepts matching values', () => {
+    expect(validate(schema, { name: 'Token', price: null, tags: ['meme'] })).toEqual([]);
+  });
+
+  it('reports missing, mistyped and unknown fields with their paths', () => {
+    const issues = validate(schema, { price: '1', tags: ['meme', 2], extra: true });
+    expect(issues.map((issue) => [issue.kind, issue.path])).toEqual([
+      ['missing', '$.name'],
+      ['type', '$.price'],
+      ['type', '$.tags[1]'],
+      ['unknown', '$.extra'],
+    ]);
+  });
+});
+
+describe('Client response validation', () => {
+  it('does not validate by default', async () => {
+    const client = createClient(undefined);
+    await expect(client.getTokenInfo(fakeAddress(1))).resolves.toEqual({ holders: 'many' });
+  });
+
+  it('throws for mistyped responses in strict mode', async () => {
+    const client = createClient('strict');
+    const error = await client.getTokenInfo(fakeAddress(1)).catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect((error as ResponseValidationError).issues).toContainEqual(
+      expect.objectContaining({ kind: 'type', path: '$.holders' })
+    );
+  });
+
+  it('only warns in warn mode', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const client = createClient('warn');
+    await expect(client.getTokenInfo(fakeAddress(1))).resolves.toMatchObject({ holders: 'many' });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('$.holders'));
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,89 @@
+import { ValidationError } from '../errors';
+import { SearchParams } from '../interfaces';
+import { SearchMarket, SearchSortField, validateSearchParams } from '../search';
+import { MockRequest, buildSearchResponse, buildSearchResult, createMockClient } from '../testing';
+
+describe('validateSearchParams', () => {
+  it('accepts valid parameters', () => {
+    expect(() =>
+      validateSearchParams({ query: 'bonk', sortBy: 'volume_1h', minLiquidity: 1000, maxLiquidity: 5000, lpBurn: 100 })
+    ).not.toThrow();
+  });
+
+  it.each<[string, SearchParams, RegExp]>([
+    ['an unknown sort field', { sortBy: 'price' as SearchSortField }, /Invalid sortBy: price/],
+    ['an unknown market', { market: 'uniswap' as SearchMarket }, /Invalid market: uniswap/],
+    ['a negative filter', { minMarketCap: -1 }, /Invalid minMarketCap: -1/],
+    ['a non-finite filter', { maxVolume: Infinity }, /Invalid maxVolume/],
+    ['a fractional page', { page: 1.5 }, /Invalid page/],
+    ['a zero limit', { limit: 0 }, /Invalid limit/],
+    ['an lpBurn above 100', { lpBurn: 150 }, /Invalid lpBurn/],
+    ['an empty range', { minBuys: 10, maxBuys: 5 }, /minBuys \(10\) is greater than maxBuys \(5\)/],
+  ])('rejects %s', (_, params, message) => {
+    expect(() => validateSearchParams(params)).toThrow(ValidationError);
+    expect(() => validateSearchParams(params)).toThrow(message);
+  });
+});
+
+describe('SearchBuilder', () => {
+  it('builds the parameters from chained calls', () => {
+    const { client } = createMockClient();
+    const params = client
+      .search()
+      .query('bonk')
+      .sortBy('marketCapUsd')
+      .minLiquidity(1000)
+      .minVolume(5000, '1h')
+      .status('graduated')
+      .where({ limit: 20 })
+      .build();
+
+    expect(params).toEqual({
+      query: 'bonk',
+      sortBy: 'marketCapUsd',
+      sortOrder: 'desc',
+      minLiquidity: 1000,
+      minVolume: 5000,
+      volumeTimeframe: '1h',
+      status: 'graduated',
+      limit: 20,
+    });
+  });
+
+  it('validates when built rather than on each call', () => {
+    const { client } = createMockClient();
+    const builder = client.search().minMarketCap(500).maxMarketCap(100);
+    expect(() => builder.build()).toThrow(ValidationError);
+    expect(builder.maxMarketCap(1000).build()).toMatchObject({ minMarketCap: 500, maxMarketCap: 1000 });
+  });
+
+  it('sends the parameters as the query string', async () => {
+    const { client, api } = createMockClient();
+    await client.search().query('bonk').minBuys(10).showPriceChanges().execute();
+
+    const { query } = api.requestsFor('/search')[0];
+    expect(query.get('query')).toBe('bonk');
+    expect(query.get('minBuys')).toBe('10');
+    expect(query.get('showPriceChanges')).toBe('true');
+  });
+
+  it('iterates over every page from the configured page', async () => {
+    const { client, api } = createMockClient();
+    api.on('/search', ({ query }: MockRequest) =>
+      buildSearchResponse({ data: query.get('page') === '2' ? [buildSearchResult()] : [] })
+    );
+
+    const results = [];
+    for await (const result of client.search().query('bonk').limit(1).page(2)) {
+      results.push(result);
+    }
+    expect(results).toHaveLength(1);
+    expect(api.requestsFor('/search').map(({ query }) => query.get('page'))).toEqual(['2', '3']);
+  });
+
+  it('rejects invalid parameters before sending a request', async () => {
+    const { client, api } = createMockClient();
+    await expect(client.searchTokens({ lpBurn: 101 })).rejects.toThrow(ValidationError);
+    expect(api.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,83 @@
+import { NotFoundError } from '../errors';
+import { MockRequest, createMockClient, createMockDatastream, fakeAddress } from '../testing';
+
+describe('MockDataApi', () => {
+  const mint = fakeAddress(1);
+
+  it('serves fixtures for every route by default', async () => {
+    const { client } = createMockClient();
+    const token = await client.getTokenInfo(mint);
+    expect(token.token.mint).toBe(mint);
+
+    const prices = await client.getMultiplePrices([mint, fakeAddress(2)]);
+    expect(Object.keys(prices)).toEqual([mint, fakeAddress(2)]);
+  });
+
+  it('records requests with their route and parameters', async () => {
+    const { client, api } = createMockClient();
+    await client.getPoolStats(mint, fakeAddress(2));
+
+    expect(api.requests).toHaveLength(1);
+    expect(api.requestsFor('/stats/:mint/:pool')[0]).toMatchObject({
+      method: 'GET',
+      params: { mint, pool: fakeAddress(2) },
+      headers: { 'x-api-key': 'test-api-key' },
+    });
+  });
+
+  it('overrides a route with a handler or a failure', async () => {
+    const { client, api } = createMockClient();
+    api.on('/tokens/:mint/ath', ({ params }: MockRequest) => ({ highest_price: params.mint.length }));
+    expect(await client.getAthPrice(mint)).toMatchObject({ highest_price: mint.length });
+
+    api.fail('/tokens/:mint/ath', 404);
+    await expect(client.getAthPrice(mint)).rejects.toThrow(NotFoundError);
+
+    api.reset();
+    expect(api.requests).toHaveLength(0);
+    expect(await client.getAthPrice(mint)).not.toMatchObject({ highest_price: mint.length });
+  });
+});
+
+describe('FakeDatastreamServer', () => {
+  it('delivers published messages to subscribed rooms', async () => {
+    const { datastream, server } = createMockDatastream({ autoReconnect: false });
+    await datastream.connect();
+    await server.flush();
+
+    const received: unknown[] = [];
+    datastream.subscribe.latest().on((data) => received.push(data));
+    expect(server.isSubscribed('latest')).toBe(true);
+
+    expect(server.publish('latest', { id: 1 })).toBe(1);
+    expect(server.publish('graduated', { id: 2 })).toBe(0);
+    expect(received).toEqual([{ id: 1 }]);
+    datastream.disconnect();
+  });
+
+  it('tracks the rooms joined and left by the client', async () => {
+    const { datastream, server } = createMockDatastream({ autoReconnect: false });
+    await datastream.connect();
+    await server.flush();
+
+    datastream.subscribe.graduated().on(() => undefined);
+    expect(server.rooms).toEqual(['graduated']);
+    datastream.unsubscribe('graduated');
+    expect(server.rooms).toEqual([]);
+    expect(server.connections[0].sent.map(({ type }) => type)).toEqual(['join', 'leave']);
+    datastream.disconnect();
+  });
+
+  it('closes every connection on disconnectAll', async () => {
+    const { datastream, server } = createMockDatastream({ autoReconnect: false });
+    const disconnected = jest.fn();
+    datastream.on('disconnected', disconnected);
+    await datastream.connect();
+    await server.flush();
+
+    expect(server.connections).toHaveLength(2);
+    server.disconnectAll();
+    expect(server.connections).toHaveLength(0);
+    expect(disconnected).toHaveBeenCalledTimes(2);
+  });
+});
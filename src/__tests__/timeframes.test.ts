@@ -0,0 +1,62 @@
+import { ValidationError } from '../errors';
+import {
+  ChartInterval,
+  TrendingTimeframe,
+  assertTrendingTimeframe,
+  candleTimeRange,
+  intervalToSeconds,
+  isChartInterval,
+  isVolumeTimeframe,
+} from '../timeframes';
+import { createMockClient, fakeAddress } from '../testing';
+
+describe('timeframe guards', () => {
+  it('accept only the values of their endpoint', () => {
+    expect(isVolumeTimeframe('6h')).toBe(true);
+    // Trending supports 2h, volume does not
+    expect(isVolumeTimeframe('2h')).toBe(false);
+    expect(isChartInterval('1mn')).toBe(true);
+    expect(isChartInterval(60)).toBe(false);
+  });
+
+  it('list the allowed values in the error', () => {
+    expect(() => assertTrendingTimeframe('7h')).toThrow(ValidationError);
+    expect(() => assertTrendingTimeframe('7h')).toThrow(/Must be one of: 5m, 15m/);
+  });
+});
+
+describe('intervalToSeconds', () => {
+  it.each<[ChartInterval | TrendingTimeframe, number]>([
+    ['1s', 1],
+    ['15m', 900],
+    ['4h', 14400],
+    ['1d', 86400],
+    ['1w', 604800],
+    ['1mn', 2592000],
+  ])('converts %s', (interval, seconds) => {
+    expect(intervalToSeconds(interval)).toBe(seconds);
+  });
+});
+
+describe('candleTimeRange', () => {
+  it('covers the requested number of candles', () => {
+    expect(candleTimeRange('5m', 12, 1700000000)).toEqual({ timeFrom: 1699996400, timeTo: 1700000000 });
+  });
+});
+
+describe('Client timeframe validation', () => {
+  it('rejects invalid timeframes before sending a request', async () => {
+    const { client, api } = createMockClient();
+    await expect(client.getTrendingTokens('7h' as TrendingTimeframe)).rejects.toThrow(ValidationError);
+    await expect(client.getChartData(fakeAddress(1), '2m' as ChartInterval)).rejects.toThrow(ValidationError);
+    expect(api.requests).toHaveLength(0);
+  });
+
+  it('puts valid timeframes in the request', async () => {
+    const { client, api } = createMockClient();
+    await client.getTrendingTokens('1h');
+    await client.getChartData(fakeAddress(1), { type: '15m' });
+    expect(api.requestsFor('/tokens/trending/:timeframe')[0].params.timeframe).toBe('1h');
+    expect(api.requestsFor('/chart/:mint')[0].query.get('type')).toBe('15m');
+  });
+});
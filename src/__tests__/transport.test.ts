@@ -0,0 +1,64 @@
+import { Client } from '../data-api';
+import { NetworkError, ValidationError } from '../errors';
+import { FetchLike, FetchRequestInit, FetchResponseLike, defaultFetch, headersToObject } from '../transport';
+import { fakeAddress, stubFetch } from './helpers';
+
+const jsonResponse = (body: unknown): FetchResponseLike => ({
+  ok: true,
+  status: 200,
+  statusText: 'OK',
+  headers: { get: (name) => (name.toLowerCase() === 'content-type' ? 'application/json' : null) },
+  json: async () => body,
+  text: async () => JSON.stringify(body),
+});
+
+describe('transport', () => {
+  it('sends requests through a custom fetch with the configured agent', async () => {
+    const agent = { keepAlive: true };
+    const calls: { url: string; init?: FetchRequestInit }[] = [];
+    const fetch: FetchLike = async (url, init) => {
+      calls.push({ url, init });
+      return jsonResponse({ ok: true });
+    };
+    const client = new Client({ apiKey: 'test-api-key', baseUrl: 'https://api.test', fetch, agent });
+
+    const mint = fakeAddress(1);
+    await expect(client.getTokenInfo(mint)).resolves.toEqual({ ok: true });
+    expect(calls[0].url).toBe(`https://api.test/tokens/${mint}`);
+    expect(calls[0].init?.agent).toBe(agent);
+    expect(calls[0].init?.headers?.['x-api-key']).toBe('test-api-key');
+  });
+
+  it('wraps transport failures in a NetworkError with the cause', async () => {
+    const cause = new TypeError('fetch failed');
+    const client = new Client({ apiKey: 'test-api-key', fetch: () => Promise.reject(cause) });
+    const error = await client.getTokenInfo(fakeAddress(1)).catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect((error as NetworkError).cause).toBe(cause);
+  });
+
+  it('lowercases header names', () => {
+    expect(headersToObject(new Headers({ 'X-RateLimit-Remaining': '5' }))).toEqual({ 'x-ratelimit-remaining': '5' });
+  });
+
+  it('uses the global fetch looked up at call time', async () => {
+    const requests = stubFetch(() => ({ ok: true }));
+    const response = await defaultFetch('https://api.test/tokens');
+    await expect(response.json()).resolves.toEqual({ ok: true });
+    expect(requests[0].path).toBe('/tokens');
+  });
+
+  it('asks for a fetch option outside Node.js when there is no global fetch', async () => {
+    const { fetch } = globalThis;
+    const { versions } = process;
+    Reflect.deleteProperty(globalThis, 'fetch');
+    Object.defineProperty(process, 'versions', { value: {}, configurable: true });
+    try {
+      await expect(defaultFetch('https://api.test/tokens')).rejects.toThrow(ValidationError);
+      await expect(defaultFetch('https://api.test/tokens')).rejects.toThrow(/`fetch` option/);
+    } finally {
+      Object.defineProperty(process, 'versions', { value: versions, configurable: true });
+      globalThis.fetch = fetch;
+    }
+  });
+});
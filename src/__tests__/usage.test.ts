@@ -0,0 +1,93 @@
+import { Client } from '../data-api';
+import { UsageSnapshot, UsageThresholdEvent, UsageTracker } from '../usage';
+import { fakeAddress, reply, stubFetch } from './helpers';
+
+const limitHeaders = (remaining: number, limit = 100) => ({
+  'x-ratelimit-limit': String(limit),
+  'x-ratelimit-remaining': String(remaining),
+});
+
+describe('UsageTracker', () => {
+  it('counts requests per route', () => {
+    const tracker = new UsageTracker();
+    tracker.recordRequest('/tokens/:mint');
+    tracker.recordRequest('/tokens/:mint');
+    tracker.recordRequest('/search');
+    expect(tracker.current).toMatchObject({
+      totalRequests: 3,
+      requestsByRoute: { '/tokens/:mint': 2, '/search': 1 },
+    });
+  });
+
+  it('ignores responses without usage headers', () => {
+    const tracker = new UsageTracker();
+    expect(tracker.recordResponse(200, { 'content-type': 'application/json' })).toBeNull();
+    expect(tracker.current.limit).toBeUndefined();
+  });
+
+  it('reads the structured RateLimit header', () => {
+    const tracker = new UsageTracker();
+    tracker.recordResponse(200, { ratelimit: 'limit=100, remaining=40, reset=30' });
+    expect(tracker.current).toMatchObject({ limit: 100, remaining: 40 });
+    expect(tracker.current.resetAt).toBeGreaterThan(Date.now());
+  });
+
+  it('reads a reset given as a Unix timestamp in seconds', () => {
+    const tracker = new UsageTracker();
+    tracker.recordResponse(200, { ...limitHeaders(50), 'x-ratelimit-reset': '1700000000' });
+    expect(tracker.current.resetAt).toBe(1700000000000);
+  });
+
+  it('reads a reset given as a Unix timestamp in milliseconds', () => {
+    const tracker = new UsageTracker();
+    tracker.recordResponse(200, { ...limitHeaders(50), 'x-ratelimit-reset': '1700000000123' });
+    expect(tracker.current.resetAt).toBe(1700000000123);
+  });
+
+  it('reports each threshold once per window', () => {
+    const tracker = new UsageTracker({ thresholds: [0.1, 0.2] });
+    expect(tracker.recordResponse(200, limitHeaders(50))).toEqual([]);
+    expect(tracker.recordResponse(200, limitHeaders(5))!.map(({ threshold }) => threshold)).toEqual([0.2, 0.1]);
+    expect(tracker.recordResponse(200, limitHeaders(4))).toEqual([]);
+
+    // More requests left than before means a new window started
+    tracker.recordResponse(200, limitHeaders(90));
+    expect(tracker.recordResponse(200, limitHeaders(15))!.map(({ threshold }) => threshold)).toEqual([0.2]);
+  });
+
+  it('counts rate limited responses', () => {
+    const tracker = new UsageTracker();
+    tracker.recordResponse(429, {});
+    expect(tracker.current.rateLimitHits).toBe(1);
+  });
+
+  it('returns a copy of the snapshot', () => {
+    const tracker = new UsageTracker();
+    tracker.current.requestsByRoute['/search'] = 5;
+    expect(tracker.current.requestsByRoute).toEqual({});
+  });
+});
+
+describe('Client usage', () => {
+  it('emits usage and threshold events from response headers', async () => {
+    stubFetch(() => reply(200, { token: {} }, limitHeaders(8)));
+    const client = new Client({ apiKey: 'test-api-key', usage: { thresholds: [0.1] } });
+    const snapshots: UsageSnapshot[] = [];
+    const crossed: UsageThresholdEvent[] = [];
+    client.on('usage', (snapshot: UsageSnapshot) => snapshots.push(snapshot));
+    client.on('usage-threshold', (event: UsageThresholdEvent) => crossed.push(event));
+
+    await client.getTokenInfo(fakeAddress(1));
+    await client.getTokenInfo(fakeAddress(2));
+
+    expect(snapshots).toHaveLength(2);
+    expect(crossed).toEqual([{ threshold: 0.1, limit: 100, remaining: 8, resetAt: undefined }]);
+    expect(client.usage).toMatchObject({
+      limit: 100,
+      remaining: 8,
+      totalRequests: 2,
+      requestsByRoute: { '/tokens/:mint': 2 },
+      headers: limitHeaders(8),
+    });
+  });
+});
@@ -0,0 +1,194 @@
+// Solana address validation and branded address types
+import { ValidationError } from './errors';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BASE58_MAP: Record<string, number> = {};
+for (let i = 0; i < BASE58_ALPHABET.length; i++) {
+  BASE58_MAP[BASE58_ALPHABET[i]] = i;
+}
+
+/**
+ * Length in bytes of a Solana public key
+ */
+export const PUBLIC_KEY_LENGTH = 32;
+
+declare const addressBrand: unique symbol;
+
+/**
+ * A validated token mint address
+ */
+export type MintAddress = string & { readonly [addressBrand]: 'MintAddress' };
+
+/**
+ * A validated wallet address
+ */
+export type WalletAddress = string & { readonly [addressBrand]: 'WalletAddress' };
+
+/**
+ * A validated pool address
+ */
+export type PoolAddress = string & { readonly [addressBrand]: 'PoolAddress' };
+
+/**
+ * Accepted where a mint address is expected: a plain string or a MintAddress,
+ * but not a WalletAddress or PoolAddress
+ */
+export type MintAddressLike = string & { readonly [addressBrand]?: 'MintAddress' };
+
+/**
+ * Accepted where a wallet address is expected: a plain string or a WalletAddress,
+ * but not a MintAddress or PoolAddress
+ */
+export type WalletAddressLike = string & { readonly [addressBrand]?: 'WalletAddress' };
+
+/**
+ * Accepted where a pool address is expected: a plain string or a PoolAddress,
+ * but not a MintAddress or WalletAddress
+ */
+export type PoolAddressLike = string & { readonly [addressBrand]?: 'PoolAddress' };
+
+/**
+ * Decodes a base58 string
+ * @param value The base58 encoded string
+ * @returns The decoded bytes, or null if the string contains characters outside the base58 alphabet
+ */
+export function decodeBase58(value: string): Uint8Array | null {
+  const bytes: number[] = [];
+  for (const char of value) {
+    let carry = BASE58_MAP[char];
+    if (carry === undefined) {
+      return null;
+    }
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  // Each leading '1' encodes a leading zero byte
+  for (let i = 0; i < value.length && value[i] === '1'; i++) {
+    bytes.push(0);
+  }
+  return Uint8Array.from(bytes.reverse());
+}
+
+/**
+ * Encodes bytes as a base58 string
+ * @param bytes The bytes to encode
+ * @returns The base58 encoded string
+ */
+export function encodeBase58(bytes: Uint8Array): string {
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = (carry / 58) | 0;
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = (carry / 58) | 0;
+    }
+  }
+
+  let result = '';
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+    result += '1';
+  }
+  for (let i = digits.length - 1; i >= 0; i--) {
+    result += BASE58_ALPHABET[digits[i]];
+  }
+  return result;
+}
+
+/**
+ * Checks whether a string is a base58 encoded 32-byte public key
+ * @param value The value to check
+ * @returns True if the value decodes to exactly 32 bytes
+ */
+export function isValidPublicKey(value: unknown): value is string {
+  // Cheap length check first, 32 bytes encode to 32-44 characters
+  if (typeof value !== 'string' || value.length < 32 || value.length > 44) {
+    return false;
+  }
+  const bytes = decodeBase58(value);
+  return bytes !== null && bytes.length === PUBLIC_KEY_LENGTH;
+}
+
+/**
+ * Throws a ValidationError unless the value is a valid public key
+ * @param value The value to check
+ * @param paramName The parameter name for error messaging
+ * @throws ValidationError if the value is not a valid public key
+ */
+export function assertPublicKey(value: unknown, paramName = 'address'): asserts value is string {
+  if (!isValidPublicKey(value)) {
+    throw new ValidationError(`Invalid ${paramName}: ${value}`);
+  }
+}
+
+/**
+ * Validates and brands a token mint address
+ * @param value The address
+ * @returns The address as a MintAddress
+ * @throws ValidationError if the address is invalid
+ */
+export function parseMintAddress(value: string): MintAddress {
+  assertPublicKey(value, 'mint address');
+  return value as MintAddress;
+}
+
+/**
+ * Validates and brands a wallet address
+ * @param value The address
+ * @returns The address as a WalletAddress
+ * @throws ValidationError if the address is invalid
+ */
+export function parseWalletAddress(value: string): WalletAddress {
+  assertPublicKey(value, 'wallet address');
+  return value as WalletAddress;
+}
+
+/**
+ * Validates and brands a pool address
+ * @param value The address
+ * @returns The address as a PoolAddress
+ * @throws ValidationError if the address is invalid
+ */
+export function parsePoolAddress(value: string): PoolAddress {
+  assertPublicKey(value, 'pool address');
+  return value as PoolAddress;
+}
+
+/**
+ * Asserts that a value is a valid mint address, narrowing it to MintAddress
+ * @param value The value to check
+ * @throws ValidationError if the address is invalid
+ */
+export function assertMintAddress(value: unknown): asserts value is MintAddress {
+  assertPublicKey(value, 'mint address');
+}
+
+/**
+ * Asserts that a value is a valid wallet address, narrowing it to WalletAddress
+ * @param value The value to check
+ * @throws ValidationError if the address is invalid
+ */
+export function assertWalletAddress(value: unknown): asserts value is WalletAddress {
+  assertPublicKey(value, 'wallet address');
+}
+
+/**
+ * Asserts that a value is a valid pool address, narrowing it to PoolAddress
+ * @param value The value to check
+ * @throws ValidationError if the address is invalid
+ */
+export function assertPoolAddress(value: unknown): asserts value is PoolAddress {
+  assertPublicKey(value, 'pool address');
+}
@@ -0,0 +1,236 @@
+import { AuthenticationError, RateLimitError, ValidationError } from './errors';
+import { UsageSnapshot, UsageTracker } from './usage';
+
+/**
+ * How the next key is picked from a pool
+ * - `round-robin`: rotate through the available keys
+ * - `least-recently-rate-limited`: the available key whose last 429 is the longest ago
+ * - `primary-secondary`: the first available key in the order given, later keys are fallbacks
+ */
+export type ApiKeyStrategy = 'round-robin' | 'least-recently-rate-limited' | 'primary-secondary';
+
+/**
+ * A key of the pool with an optional label used in health reports
+ */
+export interface ApiKeyEntry {
+  key: string;
+  /** Name shown in health reports instead of the key, e.g. `staging` */
+  label?: string;
+}
+
+/**
+ * Config options for using several API keys
+ */
+export interface ApiKeyPoolConfig {
+  keys: (string | ApiKeyEntry)[];
+  /** @default 'round-robin' */
+  strategy?: ApiKeyStrategy;
+  /**
+   * How long a key is skipped after a 429 when the response had no Retry-After header
+   * and the rate limit headers did not report when the window resets
+   * @default 60000
+   */
+  rateLimitCooldownMs?: number;
+}
+
+export type ApiKeyStatus = 'healthy' | 'rate-limited' | 'unauthorized';
+
+/**
+ * Health and usage of a single key of the pool
+ */
+export interface ApiKeyHealth {
+  /** The key's label, or `key-<n>` */
+  label: string;
+  /** The key with everything but the first and last characters masked */
+  maskedKey: string;
+  status: ApiKeyStatus;
+  /** Unix timestamp in milliseconds at which a rate-limited key is used again */
+  availableAt?: number;
+  /** Unix timestamp in milliseconds of the last 429 */
+  lastRateLimitedAt?: number;
+  /** Requests sent with this key, including retries */
+  requests: number;
+  /** Successful responses received for this key */
+  successes: number;
+  /** 401 responses received for this key */
+  authFailures: number;
+  /** Usage reported by the API's rate limit headers for this key */
+  usage: UsageSnapshot;
+}
+
+/**
+ * State of one key of the pool
+ */
+export interface PooledApiKey {
+  readonly key: string;
+  readonly label: string;
+  readonly usage: UsageTracker;
+  unauthorized: boolean;
+  availableAt: number;
+  lastRateLimitedAt?: number;
+  requests: number;
+  successes: number;
+  authFailures: number;
+}
+
+const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 60000;
+
+const maskKey = (key: string): string =>
+  key.length <= 8 ? '*'.repeat(key.length) : `${key.slice(0, 4)}${'*'.repeat(key.length - 8)}${key.slice(-4)}`;
+
+/**
+ * Picks the API key for each request and moves away from keys that are rate limited or rejected
+ */
+export class ApiKeyPool {
+  private keys: PooledApiKey[];
+  private strategy: ApiKeyStrategy;
+  private rateLimitCooldownMs: number;
+  private nextIndex = 0;
+
+  /**
+   * @param config Keys and selection strategy
+   */
+  constructor(config: ApiKeyPoolConfig) {
+    if (config.keys.length === 0) {
+      throw new ValidationError('At least one API key is required');
+    }
+    this.keys = config.keys.map((entry, index) => {
+      const { key, label } = typeof entry === 'string' ? { key: entry, label: undefined } : entry;
+      return {
+        key,
+        label: label || `key-${index + 1}`,
+        usage: new UsageTracker(),
+        unauthorized: false,
+        availableAt: 0,
+        requests: 0,
+        successes: 0,
+        authFailures: 0,
+      };
+    });
+    this.strategy = config.strategy || 'round-robin';
+    this.rateLimitCooldownMs = config.rateLimitCooldownMs ?? DEFAULT_RATE_LIMIT_COOLDOWN_MS;
+  }
+
+  /**
+   * Number of keys in the pool
+   */
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * Stable identifier of the pool, used to share a rate limiter between clients with the same keys
+   */
+  get id(): string {
+    return this.keys.map((entry) => entry.key).join(',');
+  }
+
+  /**
+   * Picks the key for the next request
+   * @param exclude Keys that already failed for the current call
+   * @returns The key to use
+   */
+  acquire(exclude: Set<PooledApiKey> = new Set()): PooledApiKey {
+    const now = Date.now();
+    const candidates = this.keys.filter((entry) => !exclude.has(entry) && !entry.unauthorized);
+    const available = candidates.filter((entry) => entry.availableAt <= now);
+
+    let selected: PooledApiKey | undefined;
+    if (available.length > 0) {
+      selected = this.select(available);
+    } else if (candidates.length > 0) {
+      // Every key is cooling down: use the one that becomes available first
+      selected = candidates.reduce((best, entry) => (entry.availableAt < best.availableAt ? entry : best));
+    } else {
+      // Nothing left to fail over to, keep using a key so the call fails with the API's error
+      selected = this.keys.find((entry) => !exclude.has(entry)) || this.keys[0];
+    }
+
+    selected.requests++;
+    return selected;
+  }
+
+  /**
+   * Whether another key could be tried for a call after the given keys failed
+   * @param exclude Keys that already failed for the call
+   */
+  hasAlternative(exclude: Set<PooledApiKey>): boolean {
+    return this.keys.some((entry) => !exclude.has(entry) && !entry.unauthorized);
+  }
+
+  /**
+   * Records a successful response
+   * @param entry The key used
+   */
+  recordSuccess(entry: PooledApiKey): void {
+    entry.successes++;
+  }
+
+  /**
+   * Records a failed request and takes the key out of rotation if it was rate limited or rejected
+   * @param entry The key used
+   * @param error The error of the request
+   * @returns True if the call should move to another key
+   */
+  recordFailure(entry: PooledApiKey, error: unknown): boolean {
+    const now = Date.now();
+    if (error instanceof RateLimitError) {
+      const resetAt = entry.usage.current.resetAt;
+      let cooldown = this.rateLimitCooldownMs;
+      if (error.retryAfter !== undefined) {
+        cooldown = error.retryAfter * 1000;
+      } else if (resetAt !== undefined && resetAt > now) {
+        cooldown = resetAt - now;
+      }
+      entry.lastRateLimitedAt = now;
+      entry.availableAt = now + cooldown;
+      return true;
+    }
+    if (error instanceof AuthenticationError && error.status === 401) {
+      entry.authFailures++;
+      entry.unauthorized = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Health and usage of every key, in the order they were configured
+   */
+  get health(): ApiKeyHealth[] {
+    const now = Date.now();
+    return this.keys.map((entry) => ({
+      label: entry.label,
+      maskedKey: maskKey(entry.key),
+      status: entry.unauthorized ? 'unauthorized' : entry.availableAt > now ? 'rate-limited' : 'healthy',
+      availableAt: entry.availableAt > now ? entry.availableAt : undefined,
+      lastRateLimitedAt: entry.lastRateLimitedAt,
+      requests: entry.requests,
+      successes: entry.successes,
+      authFailures: entry.authFailures,
+      usage: entry.usage.current,
+    }));
+  }
+
+  private select(available: PooledApiKey[]): PooledApiKey {
+    if (this.strategy === 'primary-secondary') {
+      return available[0];
+    }
+    if (this.strategy === 'least-recently-rate-limited') {
+      // Keys never rate limited come first, in the order given
+      return available.reduce((best, entry) =>
+        (entry.lastRateLimitedAt || 0) < (best.lastRateLimitedAt || 0) ? entry : best
+      );
+    }
+
+    // Round-robin: continue after the key used last, skipping unavailable ones
+    for (let i = 0; i < this.keys.length; i++) {
+      const entry = this.keys[(this.nextIndex + i) % this.keys.length];
+      if (available.includes(entry)) {
+        this.nextIndex = (this.keys.indexOf(entry) + 1) % this.keys.length;
+        return entry;
+      }
+    }
+    return available[0];
+  }
+}
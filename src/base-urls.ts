@@ -0,0 +1,291 @@
+import { FetchLike } from './transport';
+import { DataApiError, NetworkError, ValidationError } from './errors';
+
+/**
+ * Config options for using several base URLs
+ */
+export interface BaseUrlPoolConfig {
+  /** Base URLs in order of preference, e.g. an internal mirror followed by the public endpoint */
+  urls: string[];
+  /**
+   * Consecutive failures after which a URL is marked unhealthy and skipped
+   * @default 3
+   */
+  failureThreshold?: number;
+  /**
+   * Interval in milliseconds at which unhealthy URLs are probed
+   * @default 30000
+   */
+  probeIntervalMs?: number;
+  /**
+   * Path requested by recovery probes. Any response below 500 counts as recovered,
+   * so the probe doesn't need (and is sent without) an API key.
+   * @default '/'
+   */
+  probePath?: string;
+  /**
+   * Timeout in milliseconds of a recovery probe
+   * @default 5000
+   */
+  probeTimeoutMs?: number;
+}
+
+export type BaseUrlStatus = 'healthy' | 'unhealthy';
+
+/**
+ * Health of a single base URL
+ */
+export interface BaseUrlHealth {
+  url: string;
+  status: BaseUrlStatus;
+  /** Failures since the last success */
+  consecutiveFailures: number;
+  /** Exponentially weighted moving average of the response time in milliseconds */
+  latencyMs?: number;
+  /** Requests sent to this URL, including retries */
+  requests: number;
+  /** Failed requests: network errors and 5xx responses */
+  failures: number;
+  /** Unix timestamp in milliseconds of the last failure */
+  lastFailureAt?: number;
+  /** Unix timestamp in milliseconds of the last recovery probe */
+  lastProbeAt?: number;
+}
+
+/**
+ * State of one base URL of the pool
+ */
+export interface PooledBaseUrl {
+  readonly url: string;
+  status: BaseUrlStatus;
+  consecutiveFailures: number;
+  latencyMs?: number;
+  requests: number;
+  failures: number;
+  lastFailureAt?: number;
+  lastProbeAt?: number;
+}
+
+/**
+ * Weight of the latest response time in the latency average
+ */
+const LATENCY_SMOOTHING = 0.2;
+
+/**
+ * Whether an error means the base URL itself is failing rather than the request being wrong
+ * @param error The error of a request
+ */
+export function isBaseUrlFailure(error: unknown): boolean {
+  if (error instanceof NetworkError) {
+    return true;
+  }
+  return error instanceof DataApiError && error.status !== undefined && error.status >= 500;
+}
+
+/**
+ * Error codes of connections that failed before anything was sent
+ */
+const CONNECTION_FAILURE_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+
+/**
+ * Whether a request provably never reached a server because the connection was refused or the host
+ * did not resolve, so even a non-idempotent request can be sent to another URL
+ * @param error The error of a request
+ */
+export function isConnectionFailure(error: unknown): boolean {
+  if (!(error instanceof NetworkError)) {
+    return false;
+  }
+  // fetch implementations wrap the socket error one or two levels deep
+  let cause: unknown = error.cause;
+  for (let depth = 0; depth < 3 && typeof cause === 'object' && cause !== null; depth++) {
+    const { code } = cause as { code?: unknown };
+    if (typeof code === 'string' && CONNECTION_FAILURE_CODES.has(code)) {
+      return true;
+    }
+    cause = (cause as { cause?: unknown }).cause;
+  }
+  return false;
+}
+
+/**
+ * Picks the base URL for each request, skipping URLs that keep failing until a probe sees them recover
+ */
+export class BaseUrlPool {
+  private urls: PooledBaseUrl[];
+  private failureThreshold: number;
+  private probeIntervalMs: number;
+  private probePath: string;
+  private probeTimeoutMs: number;
+  private probeTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * @param config Base URLs and health check options
+   * @param fetchImpl Fetch implementation used for recovery probes
+   * @param onStatusChange Called when a URL becomes healthy or unhealthy
+   */
+  constructor(
+    config: BaseUrlPoolConfig,
+    private fetchImpl: FetchLike,
+    private onStatusChange: (health: BaseUrlHealth) => void = () => {}
+  ) {
+    if (config.urls.length === 0) {
+      throw new ValidationError('At least one base URL is required');
+    }
+    this.urls = config.urls.map((url) => ({
+      url: url.replace(/\/+$/, ''),
+      status: 'healthy',
+      consecutiveFailures: 0,
+      requests: 0,
+      failures: 0,
+    }));
+    this.failureThreshold = config.failureThreshold ?? 3;
+    this.probeIntervalMs = config.probeIntervalMs ?? 30000;
+    this.probePath = config.probePath ?? '/';
+    this.probeTimeoutMs = config.probeTimeoutMs ?? 5000;
+  }
+
+  /**
+   * Number of URLs in the pool
+   */
+  get size(): number {
+    return this.urls.length;
+  }
+
+  /**
+   * The preferred URL, used in cache keys and telemetry regardless of the URL a request is sent to
+   */
+  get primary(): string {
+    return this.urls[0].url;
+  }
+
+  /**
+   * Picks the URL for the next request: the first healthy one in order of preference
+   * @param exclude URLs that already failed for the current call
+   * @returns The URL to use
+   */
+  acquire(exclude: Set<PooledBaseUrl> = new Set()): PooledBaseUrl {
+    const candidates = this.urls.filter((entry) => !exclude.has(entry));
+    const pool = candidates.length > 0 ? candidates : this.urls;
+    // With every URL unhealthy, keep trying the one that failed least recently in a row
+    const selected =
+      pool.find((entry) => entry.status === 'healthy') ||
+      pool.reduce((best, entry) => (entry.consecutiveFailures < best.consecutiveFailures ? entry : best));
+    selected.requests++;
+    return selected;
+  }
+
+  /**
+   * Whether another URL could be tried for a call after the given URLs failed
+   * @param exclude URLs that already failed for the call
+   */
+  hasAlternative(exclude: Set<PooledBaseUrl>): boolean {
+    return this.urls.some((entry) => !exclude.has(entry));
+  }
+
+  /**
+   * Records a response received from a URL
+   * @param entry The URL used
+   * @param latencyMs Time until the response arrived
+   */
+  recordSuccess(entry: PooledBaseUrl, latencyMs: number): void {
+    entry.latencyMs =
+      entry.latencyMs === undefined ? latencyMs : entry.latencyMs + (latencyMs - entry.latencyMs) * LATENCY_SMOOTHING;
+    entry.consecutiveFailures = 0;
+    this.setStatus(entry, 'healthy');
+  }
+
+  /**
+   * Records a failed request
+   * @param entry The URL used
+   * @param error The error of the request
+   * @returns True if the URL itself failed and the call should move to another URL
+   */
+  recordFailure(entry: PooledBaseUrl, error: unknown): boolean {
+    if (!isBaseUrlFailure(error)) {
+      return false;
+    }
+    entry.failures++;
+    entry.consecutiveFailures++;
+    entry.lastFailureAt = Date.now();
+    if (entry.consecutiveFailures >= this.failureThreshold) {
+      this.setStatus(entry, 'unhealthy');
+    }
+    return true;
+  }
+
+  /**
+   * Health of every URL, in order of preference
+   */
+  get health(): BaseUrlHealth[] {
+    return this.urls.map((entry) => this.toHealth(entry));
+  }
+
+  /**
+   * Probes every unhealthy URL once
+   */
+  async probe(): Promise<void> {
+    await Promise.all(
+      this.urls.filter((entry) => entry.status === 'unhealthy').map((entry) => this.probeUrl(entry))
+    );
+  }
+
+  /**
+   * Stops the recovery probes
+   */
+  stop(): void {
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+      this.probeTimer = null;
+    }
+  }
+
+  private async probeUrl(entry: PooledBaseUrl): Promise<void> {
+    entry.lastProbeAt = Date.now();
+    // Without AbortController (Node 14) a probe that hangs is abandoned rather than aborted
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : null;
+    const timer = controller ? setTimeout(() => controller.abort(), this.probeTimeoutMs) : null;
+    try {
+      const response = await this.fetchImpl(`${entry.url}${this.probePath}`, {
+        method: 'GET',
+        signal: controller?.signal,
+      });
+      if (response.status < 500) {
+        entry.consecutiveFailures = 0;
+        this.setStatus(entry, 'healthy');
+      }
+    } catch {
+      // Still down, try again on the next probe
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  private setStatus(entry: PooledBaseUrl, status: BaseUrlStatus): void {
+    if (entry.status === status) {
+      return;
+    }
+    entry.status = status;
+    this.onStatusChange(this.toHealth(entry));
+
+    const unhealthy = this.urls.some((item) => item.status === 'unhealthy');
+    // With a single URL every request goes to it anyway, so probing it would only add traffic
+    if (unhealthy && !this.probeTimer && this.urls.length > 1) {
+      // A failed probe round is retried on the next interval
+      this.probeTimer = setInterval(() => this.probe().catch(() => undefined), this.probeIntervalMs);
+      // Probing alone shouldn't keep the process alive
+      if (typeof this.probeTimer === 'object' && typeof this.probeTimer.unref === 'function') {
+        this.probeTimer.unref();
+      }
+    } else if (!unhealthy) {
+      this.stop();
+    }
+  }
+
+  private toHealth(entry: PooledBaseUrl): BaseUrlHealth {
+    const { url, status, consecutiveFailures, latencyMs, requests, failures, lastFailureAt, lastProbeAt } = entry;
+    return { url, status, consecutiveFailures, latencyMs, requests, failures, lastFailureAt, lastProbeAt };
+  }
+}
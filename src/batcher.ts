@@ -0,0 +1,188 @@
+import { NotFoundError } from './errors';
+import { cloneResult } from './dedupe';
+import { Middleware } from './middleware';
+import { matchRoute } from './routes';
+import { MultiPriceResponse, PriceData, TokenDetailResponse } from './interfaces';
+
+/**
+ * Config options for automatic micro-batching of single-token calls
+ */
+export interface BatchingConfig {
+  /**
+   * How long to collect calls before sending a batch, in milliseconds
+   * @default 10
+   */
+  windowMs?: number;
+  /**
+   * Maximum tokens per price batch (API limit: 100)
+   * @default 100
+   */
+  maxPriceBatchSize?: number;
+  /**
+   * Maximum tokens per token info batch (API limit: 20)
+   * @default 20
+   */
+  maxTokenBatchSize?: number;
+}
+
+interface PendingLoad<V> {
+  promise: Promise<V>;
+  resolve: (value: V) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * DataLoader style batcher: keys requested within a short window are loaded
+ * together with a single call and the results fanned back out.
+ */
+export class Batcher<V> {
+  private queue = new Map<string, PendingLoad<V>>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param loadBatch Loads a batch of keys, resolving with the values found
+   * @param windowMs How long to collect keys before loading them
+   * @param maxBatchSize Maximum number of keys per batch
+   */
+  constructor(
+    private loadBatch: (keys: string[]) => Promise<Map<string, V>>,
+    private windowMs: number,
+    private maxBatchSize: number
+  ) {}
+
+  /**
+   * Loads a single key as part of the next batch
+   * @param key The key to load
+   * @returns The value for the key
+   * @throws NotFoundError if the batch response doesn't include the key
+   */
+  load(key: string): Promise<V> {
+    const existing = this.queue.get(key);
+    if (existing) {
+      // Each caller gets its own copy so one caller mutating the result can't affect another
+      return existing.promise.then(cloneResult);
+    }
+
+    let resolve!: (value: V) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<V>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    this.queue.set(key, { promise, resolve, reject });
+
+    if (this.queue.size >= this.maxBatchSize) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.windowMs);
+    }
+
+    return promise;
+  }
+
+  /**
+   * Sends the queued keys as one batch
+   */
+  private flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const batch = this.queue;
+    this.queue = new Map();
+    if (batch.size === 0) {
+      return;
+    }
+
+    this.loadBatch(Array.from(batch.keys())).then(
+      (results) => {
+        for (const [key, pending] of batch) {
+          const value = results.get(key);
+          if (value === undefined) {
+            pending.reject(new NotFoundError(`No data returned for ${key}`));
+          } else {
+            pending.resolve(value);
+          }
+        }
+      },
+      (error) => {
+        for (const pending of batch.values()) {
+          pending.reject(error);
+        }
+      }
+    );
+  }
+}
+
+/**
+ * Loaders used to send the merged requests
+ */
+export interface BatchLoaders {
+  prices(tokenAddresses: string[], priceChanges: boolean): Promise<MultiPriceResponse>;
+  tokens(tokenAddresses: string[]): Promise<TokenDetailResponse[]>;
+}
+
+/**
+ * Merges single-token price and token info requests into multi-token requests
+ */
+export class RequestBatcher {
+  private prices: Batcher<PriceData>;
+  private pricesWithChanges: Batcher<PriceData>;
+  private tokens: Batcher<TokenDetailResponse>;
+
+  /**
+   * @param loaders Functions sending the merged requests
+   * @param config Batching configuration
+   */
+  constructor(loaders: BatchLoaders, config: BatchingConfig = {}) {
+    const windowMs = config.windowMs ?? 10;
+    const priceBatchSize = Math.min(config.maxPriceBatchSize || 100, 100);
+    const tokenBatchSize = Math.min(config.maxTokenBatchSize || 20, 20);
+
+    const loadPrices = (priceChanges: boolean) => async (keys: string[]) => {
+      const response = await loaders.prices(keys, priceChanges);
+      return new Map(Object.entries(response || {}));
+    };
+
+    this.prices = new Batcher(loadPrices(false), windowMs, priceBatchSize);
+    this.pricesWithChanges = new Batcher(loadPrices(true), windowMs, priceBatchSize);
+    this.tokens = new Batcher(
+      async (keys) => {
+        const response = await loaders.tokens(keys);
+        return new Map((response || []).map((token) => [token.token.mint, token]));
+      },
+      windowMs,
+      tokenBatchSize
+    );
+  }
+
+  /**
+   * Creates the middleware that diverts single-token GET requests into batches
+   * @param enabled Whether this call may be batched
+   * @returns The batching middleware
+   */
+  middleware(enabled: boolean): Middleware {
+    return (context, next) => {
+      if (!enabled || context.method !== 'GET') {
+        return next();
+      }
+
+      const route = matchRoute(context.endpoint);
+      if (route.template === '/tokens/:mint') {
+        context.state.batched = true;
+        return this.tokens.load(route.params.mint);
+      }
+
+      const token = route.query.get('token');
+      if (route.template === '/price' && token) {
+        context.state.batched = true;
+        const batcher =
+          route.query.get('priceChanges') === 'true' ? this.pricesWithChanges : this.prices;
+        return batcher.load(token);
+      }
+
+      return next();
+    };
+  }
+}
@@ -0,0 +1,235 @@
+import { Middleware } from './middleware';
+import { RouteMatch, matchRoute } from './routes';
+
+/**
+ * Storage backend for the response cache. Implementations may be synchronous
+ * (like the in-memory store) or asynchronous (e.g. backed by Redis).
+ */
+export interface CacheStore {
+  /** Returns the cached value, or undefined if it is missing or expired */
+  get(key: string): unknown | Promise<unknown>;
+  /** Stores a value for the given number of milliseconds */
+  set(key: string, value: unknown, ttlMs: number): void | Promise<void>;
+  /** Removes a single entry */
+  delete(key: string): void | Promise<void>;
+  /** Lists the keys currently stored, used for invalidation */
+  keys(): string[] | Promise<string[]>;
+  /** Removes every entry */
+  clear(): void | Promise<void>;
+}
+
+interface MemoryCacheEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * In-memory least-recently-used cache store.
+ * Values are stored serialized so callers can't mutate cached responses.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, MemoryCacheEntry>();
+
+  /**
+   * @param maxEntries Maximum number of entries kept before the least recently used are evicted
+   */
+  constructor(private maxEntries: number = 1000) {}
+
+  get(key: string): unknown {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Move to the end so the entry is the most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return JSON.parse(entry.value);
+  }
+
+  set(key: string, value: unknown, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value: JSON.stringify(value), expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of entries currently stored, including expired entries not yet evicted
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Time to live for a route, either fixed or computed from the matched request
+ */
+export type CacheTtl = number | ((route: RouteMatch) => number);
+
+/**
+ * Config options for the response cache
+ */
+export interface CacheConfig {
+  /**
+   * Where responses are stored
+   * @default new MemoryCacheStore()
+   */
+  store?: CacheStore;
+  /**
+   * TTL overrides in milliseconds keyed by route template, e.g. `{ '/tokens/:mint': 60000 }`.
+   * A TTL of 0 disables caching for that route.
+   */
+  ttl?: Record<string, CacheTtl>;
+  /**
+   * TTL in milliseconds for routes without a default or override
+   * @default 0
+   */
+  defaultTtlMs?: number;
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Data for time ranges that ended this long ago is treated as final
+ */
+const SETTLED_AFTER_SECONDS = 5 * 60;
+
+const isSettled = (timestamp: string | null): boolean =>
+  !!timestamp && Number(timestamp) < Date.now() / 1000 - SETTLED_AFTER_SECONDS;
+
+/**
+ * Default TTLs per route template
+ */
+export const DEFAULT_CACHE_TTLS: Record<string, CacheTtl> = {
+  '/tokens/multi/all': 5 * SECOND,
+  '/tokens/multi/graduated': 10 * SECOND,
+  '/tokens/latest': 5 * SECOND,
+  '/tokens/trending': 30 * SECOND,
+  '/tokens/trending/:timeframe': 30 * SECOND,
+  '/tokens/volume': 30 * SECOND,
+  '/tokens/volume/:timeframe': 30 * SECOND,
+  '/tokens/by-pool/:pool': 15 * SECOND,
+  '/tokens/:mint/holders/top': 30 * SECOND,
+  '/tokens/:mint/holders': 30 * SECOND,
+  '/tokens/:mint/ath': 5 * MINUTE,
+  '/tokens/:mint': 15 * SECOND,
+  '/deployer/:wallet': MINUTE,
+  '/search': 15 * SECOND,
+  '/price/history/timestamp': (route) =>
+    isSettled(route.query.get('timestamp')) ? 24 * HOUR : 10 * SECOND,
+  '/price/history/range': (route) =>
+    isSettled(route.query.get('time_to')) ? 24 * HOUR : 10 * SECOND,
+  '/price/history': MINUTE,
+  '/price/multi': 2 * SECOND,
+  '/price': 2 * SECOND,
+  '/wallet/:owner/basic': 10 * SECOND,
+  '/wallet/:owner/page/:page': 10 * SECOND,
+  '/wallet/:owner/trades': 5 * SECOND,
+  '/wallet/:owner': 10 * SECOND,
+  '/trades/:mint/by-wallet/:owner': 5 * SECOND,
+  '/trades/:mint/:pool/:owner': 5 * SECOND,
+  '/trades/:mint/:pool': 5 * SECOND,
+  '/trades/:mint': 5 * SECOND,
+  '/chart/:mint/:pool': (route) => (isSettled(route.query.get('time_to')) ? HOUR : 10 * SECOND),
+  '/chart/:mint': (route) => (isSettled(route.query.get('time_to')) ? HOUR : 10 * SECOND),
+  '/holders/chart/:mint': 30 * SECOND,
+  '/pnl/:wallet/:mint': 30 * SECOND,
+  '/pnl/:wallet': 30 * SECOND,
+  '/first-buyers/:mint': MINUTE,
+  '/top-traders/all/:page': MINUTE,
+  '/top-traders/all': MINUTE,
+  '/top-traders/:mint': MINUTE,
+  '/stats/:mint/:pool': 15 * SECOND,
+  '/stats/:mint': 15 * SECOND,
+};
+
+/**
+ * Response cache for GET requests
+ */
+export class ResponseCache {
+  public readonly store: CacheStore;
+  private ttls: Record<string, CacheTtl>;
+  private defaultTtlMs: number;
+
+  /**
+   * @param config Cache configuration
+   */
+  constructor(config: CacheConfig = {}) {
+    this.store = config.store || new MemoryCacheStore();
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...config.ttl };
+    this.defaultTtlMs = config.defaultTtlMs || 0;
+  }
+
+  /**
+   * Creates the middleware that serves and stores cached responses
+   * @param bypass Skip the cache lookup for this call (the fresh response is still stored)
+   * @returns The cache middleware
+   */
+  middleware(bypass?: boolean): Middleware {
+    return async (context, next) => {
+      if (context.method !== 'GET') {
+        return next();
+      }
+
+      const ttl = this.getTtl(matchRoute(context.endpoint));
+      if (ttl <= 0) {
+        return next();
+      }
+
+      const key = `${context.baseUrl}${context.endpoint}`;
+      if (!bypass) {
+        const cached = await this.store.get(key);
+        if (cached !== undefined) {
+          context.state.cacheHit = true;
+          return cached;
+        }
+      }
+
+      const result = await next();
+      await this.store.set(key, result, ttl);
+      return result;
+    };
+  }
+
+  /**
+   * Removes every cached response whose endpoint contains the given address
+   * @param address Token, pool or wallet address
+   */
+  async invalidate(address: string): Promise<void> {
+    const keys = await this.store.keys();
+    await Promise.all(keys.filter((key) => key.includes(address)).map((key) => this.store.delete(key)));
+  }
+
+  /**
+   * Removes every cached response
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  private getTtl(route: RouteMatch): number {
+    const ttl = this.ttls[route.template] ?? this.defaultTtlMs;
+    return typeof ttl === 'function' ? ttl(route) : ttl;
+  }
+}
@@ -0,0 +1,113 @@
+import { AbortError, DataApiError, TimeoutError } from './errors';
+
+/**
+ * Tracks the cancellation state of a single client call, combining a caller
+ * provided AbortSignal with an optional timeout.
+ *
+ * Works without AbortController (Node 14); in that case pending work is
+ * abandoned rather than actively aborted.
+ */
+export class Cancellation {
+  /** The error the call was cancelled with, if any */
+  public reason: DataApiError | null = null;
+
+  private controller: AbortController | null;
+  private listeners = new Set<(error: DataApiError) => void>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private parentSignal?: AbortSignal;
+  private onParentAbort = () => this.cancel(new AbortError('Request was aborted'));
+
+  /**
+   * @param signal Optional signal provided by the caller
+   * @param timeoutMs Optional timeout in milliseconds
+   */
+  constructor(signal?: AbortSignal, timeoutMs?: number) {
+    this.controller = typeof AbortController !== 'undefined' ? new AbortController() : null;
+
+    if (signal) {
+      this.parentSignal = signal;
+      if (signal.aborted) {
+        this.onParentAbort();
+      } else {
+        signal.addEventListener('abort', this.onParentAbort);
+      }
+    }
+
+    if (timeoutMs && timeoutMs > 0 && !this.reason) {
+      this.timer = setTimeout(
+        () => this.cancel(new TimeoutError(`Request timed out after ${timeoutMs}ms`, timeoutMs)),
+        timeoutMs
+      );
+    }
+  }
+
+  /**
+   * Signal that is aborted when the call is cancelled, if AbortController is available
+   */
+  get signal(): AbortSignal | undefined {
+    return this.controller ? this.controller.signal : undefined;
+  }
+
+  /**
+   * Throws the cancellation reason if the call has been cancelled
+   */
+  throwIfCancelled(): void {
+    if (this.reason) {
+      throw this.reason;
+    }
+  }
+
+  /**
+   * Settles with the given promise, or rejects as soon as the call is cancelled
+   * @param promise The promise to race against cancellation
+   */
+  race<T>(promise: Promise<T>): Promise<T> {
+    if (this.reason) {
+      promise.catch(() => undefined);
+      return Promise.reject(this.reason);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const listener = (error: DataApiError) => reject(error);
+      this.listeners.add(listener);
+      promise.then(
+        (value) => {
+          this.listeners.delete(listener);
+          resolve(value);
+        },
+        (error) => {
+          this.listeners.delete(listener);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Releases the timer and signal listener. Must be called once the call has settled.
+   */
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.parentSignal) {
+      this.parentSignal.removeEventListener('abort', this.onParentAbort);
+    }
+    this.listeners.clear();
+  }
+
+  private cancel(error: DataApiError): void {
+    if (this.reason) {
+      return;
+    }
+    this.reason = error;
+    for (const listener of this.listeners) {
+      listener(error);
+    }
+    this.listeners.clear();
+    if (this.controller) {
+      this.controller.abort();
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { CallOptions } from './data-api';
+import { ValidationError } from './errors';
+
+/**
+ * Options for calls that split a large list of addresses into several requests
+ */
+export interface ChunkedCallOptions extends CallOptions {
+  /** Number of addresses per request, capped at the endpoint's limit */
+  chunkSize?: number;
+  /**
+   * Maximum number of chunk requests in flight at once
+   * @default 4
+   */
+  concurrency?: number;
+}
+
+/**
+ * A chunk that could not be fetched
+ */
+export interface ChunkFailure {
+  /** Position of the chunk in the request */
+  index: number;
+  /** Addresses included in the failed chunk */
+  tokenAddresses: string[];
+  /** The error the chunk failed with */
+  error: unknown;
+}
+
+/**
+ * Merged result of a chunked call
+ */
+export interface ChunkedResult<T> {
+  /** Data merged from every successful chunk */
+  data: T;
+  /** Chunks that failed, empty when every request succeeded */
+  failures: ChunkFailure[];
+}
+
+/**
+ * Splits an array into chunks of at most the given size
+ * @param items The items to split
+ * @param size Maximum chunk size
+ * @returns The chunks, in order
+ * @throws ValidationError if the size is not a positive integer
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new ValidationError(`Chunk size must be a positive integer, got: ${size}`);
+  }
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Resolves the chunk size of a chunked call
+ * @param chunkSize The requested chunk size, if any
+ * @param limit The endpoint's maximum number of addresses per request
+ * @returns The chunk size capped at the limit
+ * @throws ValidationError if the requested size is not a positive integer
+ */
+export function resolveChunkSize(chunkSize: number | undefined, limit: number): number {
+  if (chunkSize === undefined) {
+    return limit;
+  }
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new ValidationError(`chunkSize must be a positive integer, got: ${chunkSize}`);
+  }
+  return Math.min(chunkSize, limit);
+}
+
+/**
+ * Runs an async function over every chunk with bounded concurrency, collecting failures
+ * @param chunks The chunks to process
+ * @param concurrency Maximum number of chunks processed at once
+ * @param fn Function fetching a single chunk
+ * @returns Results of the successful chunks (in order) and the failed chunks
+ */
+export async function runChunks<R>(
+  chunks: string[][],
+  concurrency: number,
+  fn: (chunk: string[]) => Promise<R>
+): Promise<{ results: R[]; failures: ChunkFailure[] }> {
+  const settled: Array<{ result?: R; failure?: ChunkFailure }> = new Array(chunks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < chunks.length) {
+      const index = next++;
+      try {
+        settled[index] = { result: await fn(chunks[index]) };
+      } catch (error) {
+        settled[index] = { failure: { index, tokenAddresses: chunks[index], error } };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, chunks.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  return {
+    results: settled.filter((entry) => !entry.failure).map((entry) => entry.result as R),
+    failures: settled.filter((entry) => entry.failure).map((entry) => entry.failure as ChunkFailure),
+  };
+}
@@ -0,0 +1,260 @@
+import { CircuitOpenError, DataApiError, NetworkError } from './errors';
+import { isBaseUrlFailure } from './base-urls';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Config options for the per-route circuit breaker
+ */
+export interface CircuitBreakerConfig {
+  /**
+   * Consecutive failures of a route after which its circuit opens
+   * @default 5
+   */
+  failureThreshold?: number;
+  /**
+   * Time in milliseconds an open circuit fails fast before letting a trial request through
+   * @default 30000
+   */
+  cooldownMs?: number;
+  /**
+   * Trial requests let through at once while a circuit is half-open
+   * @default 1
+   */
+  halfOpenMaxRequests?: number;
+  /**
+   * Decides which errors count as failures.
+   * Defaults to network errors and 5xx responses; 4xx responses show the API is up and count as successes.
+   * Other errors that are not counted, such as a full rate limit queue, leave the circuit as it is.
+   */
+  isFailure?: (error: unknown) => boolean;
+}
+
+/**
+ * Payload of the `circuit-state-change` event
+ */
+export interface CircuitStateChange {
+  /** Route template, e.g. `/pnl/:wallet` */
+  route: string;
+  from: CircuitState;
+  to: CircuitState;
+  /** Consecutive failures that led to the change */
+  consecutiveFailures: number;
+}
+
+/**
+ * Current state of the circuit of a route
+ */
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** Unix timestamp in milliseconds at which the circuit last opened */
+  openedAt?: number;
+  /** Unix timestamp in milliseconds at which an open circuit lets a trial request through */
+  retryAt?: number;
+}
+
+/**
+ * Permission to send one request, returned by `acquire` and handed back with the outcome
+ */
+export interface CircuitPermit {
+  route: string;
+  /** Half-open period the request is a trial of, undefined for requests let through by a closed circuit */
+  trial?: number;
+}
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  trialsInFlight: number;
+  /** Counts the half-open periods, so trials of an earlier period can be told apart */
+  halfOpenPeriod: number;
+}
+
+/**
+ * Whether an error reports what the server did: an HTTP response or a failed connection.
+ * Other errors, such as a full queue or an abort, say nothing about the health of the route.
+ */
+const isServerOutcome = (error: unknown): boolean =>
+  error instanceof NetworkError || (error instanceof DataApiError && error.status !== undefined);
+
+/**
+ * Tracks failures per route template and fails calls fast while a route keeps failing
+ */
+export class CircuitBreaker {
+  private circuits = new Map<string, Circuit>();
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private halfOpenMaxRequests: number;
+  private isFailure: (error: unknown) => boolean;
+
+  /**
+   * @param config Circuit breaker configuration
+   * @param onStateChange Called whenever a circuit changes state
+   */
+  constructor(config: CircuitBreakerConfig = {}, private onStateChange: (change: CircuitStateChange) => void = () => {}) {
+    this.failureThreshold = config.failureThreshold ?? 5;
+    this.cooldownMs = config.cooldownMs ?? 30000;
+    this.halfOpenMaxRequests = config.halfOpenMaxRequests ?? 1;
+    this.isFailure = config.isFailure || isBaseUrlFailure;
+  }
+
+  /**
+   * Claims permission to send a request for a route
+   * @param route Route template of the request
+   * @returns The permit to pass to `record` or `release` once the request settles
+   * @throws CircuitOpenError if the circuit is open, or half-open with all trial slots taken
+   */
+  acquire(route: string): CircuitPermit {
+    const circuit = this.circuit(route);
+    if (circuit.state === 'closed') {
+      return { route };
+    }
+
+    if (circuit.state === 'open' && Date.now() >= this.retryAt(circuit)) {
+      this.transition(route, circuit, 'half-open');
+    }
+    if (circuit.state === 'half-open' && circuit.trialsInFlight < this.halfOpenMaxRequests) {
+      circuit.trialsInFlight++;
+      return { route, trial: circuit.halfOpenPeriod };
+    }
+
+    throw this.openError(route, circuit);
+  }
+
+  /**
+   * Fails fast if `acquire` would reject a request for the route right now, without claiming a trial slot.
+   * Lets callers skip queueing and other work for a request that cannot be sent.
+   * @param route Route template of the request
+   * @throws CircuitOpenError if the circuit is open, or half-open with all trial slots taken
+   */
+  check(route: string): void {
+    const circuit = this.circuits.get(route);
+    if (
+      circuit &&
+      ((circuit.state === 'open' && Date.now() < this.retryAt(circuit)) ||
+        (circuit.state === 'half-open' && circuit.trialsInFlight >= this.halfOpenMaxRequests))
+    ) {
+      throw this.openError(route, circuit);
+    }
+  }
+
+  /**
+   * Records the outcome of a request sent after `acquire`.
+   * Only trials of the current half-open period close or reopen a half-open circuit.
+   * Errors that neither `isFailure` counts nor came from the server are released instead.
+   * @param permit The permit returned by `acquire`
+   * @param error The error of the request, undefined if it succeeded
+   */
+  record(permit: CircuitPermit, error?: unknown): void {
+    const failed = error !== undefined && this.isFailure(error);
+    if (error !== undefined && !failed && !isServerOutcome(error)) {
+      this.release(permit);
+      return;
+    }
+
+    const circuit = this.circuit(permit.route);
+    const trial = this.settleTrial(circuit, permit);
+    if (failed) {
+      circuit.consecutiveFailures++;
+      if (trial || (circuit.state === 'closed' && circuit.consecutiveFailures >= this.failureThreshold)) {
+        circuit.openedAt = Date.now();
+        this.transition(permit.route, circuit, 'open');
+      }
+      return;
+    }
+
+    if (trial) {
+      circuit.consecutiveFailures = 0;
+      this.transition(permit.route, circuit, 'closed');
+    } else if (circuit.state === 'closed') {
+      circuit.consecutiveFailures = 0;
+    }
+  }
+
+  /**
+   * Gives back a trial slot without recording an outcome, e.g. when the call was cancelled
+   * @param permit The permit returned by `acquire`
+   */
+  release(permit: CircuitPermit): void {
+    this.settleTrial(this.circuit(permit.route), permit);
+  }
+
+  /**
+   * Closes the circuit of a route, or of every route
+   * @param route Route template, all routes if omitted
+   */
+  reset(route?: string): void {
+    const routes = route ? [route] : Array.from(this.circuits.keys());
+    for (const item of routes) {
+      const circuit = this.circuits.get(item);
+      if (!circuit) continue;
+      circuit.consecutiveFailures = 0;
+      circuit.trialsInFlight = 0;
+      this.transition(item, circuit, 'closed');
+    }
+  }
+
+  /**
+   * State of every route that has been called, keyed by route template
+   */
+  get snapshot(): Record<string, CircuitSnapshot> {
+    const result: Record<string, CircuitSnapshot> = {};
+    this.circuits.forEach((circuit, route) => {
+      result[route] = {
+        state: circuit.state,
+        consecutiveFailures: circuit.consecutiveFailures,
+        openedAt: circuit.openedAt,
+        retryAt: circuit.state === 'open' ? (circuit.openedAt || 0) + this.cooldownMs : undefined,
+      };
+    });
+    return result;
+  }
+
+  /**
+   * Frees the trial slot of a permit
+   * @returns True if the permit is a trial of the current half-open period
+   */
+  private settleTrial(circuit: Circuit, permit: CircuitPermit): boolean {
+    if (circuit.state !== 'half-open' || permit.trial !== circuit.halfOpenPeriod) {
+      return false;
+    }
+    circuit.trialsInFlight = Math.max(0, circuit.trialsInFlight - 1);
+    return true;
+  }
+
+  private retryAt(circuit: Circuit): number {
+    return (circuit.openedAt || 0) + this.cooldownMs;
+  }
+
+  private openError(route: string, circuit: Circuit): CircuitOpenError {
+    return new CircuitOpenError(
+      `Circuit for ${route} is ${circuit.state} after ${circuit.consecutiveFailures} consecutive failures`,
+      route,
+      circuit.state === 'open' ? this.retryAt(circuit) : Date.now()
+    );
+  }
+
+  private circuit(route: string): Circuit {
+    let circuit = this.circuits.get(route);
+    if (!circuit) {
+      circuit = { state: 'closed', consecutiveFailures: 0, trialsInFlight: 0, halfOpenPeriod: 0 };
+      this.circuits.set(route, circuit);
+    }
+    return circuit;
+  }
+
+  private transition(route: string, circuit: Circuit, to: CircuitState): void {
+    const from = circuit.state;
+    if (from === to) {
+      return;
+    }
+    circuit.state = to;
+    circuit.trialsInFlight = 0;
+    if (to === 'half-open') {
+      circuit.halfOpenPeriod++;
+    }
+    this.onStateChange({ route, from, to, consecutiveFailures: circuit.consecutiveFailures });
+  }
+}
@@ -0,0 +1,146 @@
+import { ValidationError } from '../errors';
+
+export type OptionType = 'string' | 'number' | 'boolean';
+
+/**
+ * An option accepted by a command, e.g. `--type 1m`
+ */
+export interface OptionSpec {
+  /** Option name in kebab case, without the leading dashes */
+  name: string;
+  type: OptionType;
+  description: string;
+  /** Single-letter alias, e.g. `o` for `-o` */
+  alias?: string;
+}
+
+/**
+ * Parsed command line: positional arguments and option values keyed by option name
+ */
+export interface ParsedArgs {
+  positionals: string[];
+  options: Record<string, string | number | boolean>;
+}
+
+/**
+ * Converts a kebab-case option name to the camelCase used by the API, e.g. `min-liquidity` to `minLiquidity`
+ */
+export const camelCase = (name: string): string => name.replace(/-([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+
+const toNumber = (name: string, value: string): number => {
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number)) {
+    throw new ValidationError(`Option --${name} expects a number, got: ${value}`);
+  }
+  return number;
+};
+
+/**
+ * Parses command line arguments.
+ * Supports `--name value`, `--name=value`, `-a value`, `--no-name` for booleans and `--` to end the options.
+ * @param argv Arguments after the command name
+ * @param specs Options the command accepts
+ * @param passthrough Accept unknown options, typed as numbers when they look numeric
+ * @returns Positional arguments and option values
+ * @throws ValidationError for unknown options or missing and malformed values
+ */
+export function parseArgs(argv: string[], specs: OptionSpec[], passthrough = false): ParsedArgs {
+  const positionals: string[] = [];
+  const options: ParsedArgs['options'] = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('-') || arg === '-' || /^-\d/.test(arg)) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const equals = arg.indexOf('=');
+    const flag = equals === -1 ? arg : arg.slice(0, equals);
+    let inline: string | undefined = equals === -1 ? undefined : arg.slice(equals + 1);
+    let name = flag.startsWith('--') ? flag.slice(2) : flag.slice(1);
+    let spec = flag.startsWith('--')
+      ? specs.find((item) => item.name === name)
+      : specs.find((item) => item.alias === name);
+
+    if (!spec && name.startsWith('no-')) {
+      const negated = specs.find((item) => item.name === name.slice(3) && item.type === 'boolean');
+      if (negated && inline === undefined) {
+        options[negated.name] = false;
+        continue;
+      }
+    }
+
+    const undeclared = !spec;
+    if (!spec) {
+      if (!passthrough || !flag.startsWith('--')) {
+        throw new ValidationError(`Unknown option: ${flag}`);
+      }
+      spec = { name, type: 'string', description: '' };
+    }
+    name = spec.name;
+
+    if (spec.type === 'boolean') {
+      if (inline !== undefined && inline !== 'true' && inline !== 'false') {
+        throw new ValidationError(`Option --${name} expects true or false, got: ${inline}`);
+      }
+      options[name] = inline !== 'false';
+      continue;
+    }
+
+    if (inline === undefined) {
+      if (i + 1 >= argv.length) {
+        throw new ValidationError(`Option --${name} requires a value`);
+      }
+      inline = argv[++i];
+    }
+
+    if (spec.type === 'number') {
+      options[name] = toNumber(name, inline);
+    } else if (undeclared && inline.trim() !== '' && Number.isFinite(Number(inline))) {
+      // Passthrough options have no declared type, so numeric-looking values are sent as numbers
+      options[name] = Number(inline);
+    } else if (undeclared && (inline === 'true' || inline === 'false')) {
+      options[name] = inline === 'true';
+    } else {
+      options[name] = inline;
+    }
+  }
+
+  return { positionals, options };
+}
+
+/**
+ * Parses a point in time given as Unix seconds, Unix milliseconds, an ISO date
+ * or a duration before now such as `30m`, `24h` or `7d`
+ * @param value The value of the option
+ * @param name Option name used in the error message
+ * @param now Reference time in milliseconds
+ * @returns Unix timestamp in seconds
+ */
+export function parseTime(value: string | number, name: string, now: number = Date.now()): number {
+  const text = String(value).trim();
+  if (/^\d+$/.test(text)) {
+    const number = Number(text);
+    // 13-digit values are milliseconds
+    return number > 1e11 ? Math.floor(number / 1000) : number;
+  }
+
+  const relative = /^(\d+)(s|m|h|d|w)$/.exec(text);
+  if (relative) {
+    const units: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+    return Math.floor(now / 1000) - Number(relative[1]) * units[relative[2]];
+  }
+
+  const date = Date.parse(text);
+  if (Number.isNaN(date)) {
+    throw new ValidationError(
+      `Option --${name} expects Unix seconds, an ISO date or a duration such as 24h, got: ${value}`
+    );
+  }
+  return Math.floor(date / 1000);
+}
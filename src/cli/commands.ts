@@ -0,0 +1,440 @@
+import { Client } from '../data-api';
+import { ChunkedResult } from '../chunking';
+import { Paginator, PaginationOptions } from '../pagination';
+import { ChartInterval, TrendingTimeframe, VolumeTimeframe } from '../timeframes';
+import { SearchParams, TradeQueryOptions, TradesResponse, TradeTransaction } from '../interfaces';
+import { OptionSpec, ParsedArgs, camelCase, parseTime } from './args';
+
+/**
+ * What a command gets to work with
+ */
+export interface CommandContext {
+  client: Client;
+  /** Positional arguments after the command name */
+  args: string[];
+  /** Option values keyed by option name */
+  options: ParsedArgs['options'];
+}
+
+/**
+ * A CLI subcommand mirroring one or more Client methods
+ */
+export interface Command {
+  /** Words naming the command, e.g. `['token', 'info']` */
+  path: string[];
+  /** Positional arguments: `<required>`, `[optional]` and `<variadic...>` */
+  usage: string;
+  description: string;
+  options?: OptionSpec[];
+  /** Accept undeclared options and pass them on to the API, e.g. search filters */
+  passthrough?: boolean;
+  /** Picks the list of items out of the response for ndjson, csv and table output */
+  rows?: (value: unknown) => unknown[] | undefined;
+  /** Returns a response, or an async iterable of items for paginated output */
+  run(context: CommandContext): Promise<unknown> | AsyncIterable<unknown>;
+}
+
+// ======== SHARED OPTIONS ========
+
+const PAGINATION_OPTIONS: OptionSpec[] = [
+  { name: 'all', type: 'boolean', description: 'Fetch every page instead of only the first' },
+  { name: 'limit', type: 'number', description: 'Stop after this many items (implies --all)' },
+  { name: 'max-pages', type: 'number', description: 'Stop after this many pages (implies --all)' },
+];
+
+const TRADE_OPTIONS: OptionSpec[] = [
+  ...PAGINATION_OPTIONS,
+  { name: 'cursor', type: 'number', description: 'Cursor of the page to start at' },
+  { name: 'show-meta', type: 'boolean', description: 'Include token metadata' },
+  { name: 'parse-jupiter', type: 'boolean', description: 'Parse Jupiter swaps' },
+  { name: 'hide-arb', type: 'boolean', description: 'Hide arbitrage transactions' },
+];
+
+const PAGE_OPTION: OptionSpec = { name: 'page', type: 'number', description: 'Page number' };
+
+/**
+ * Last page of the latest tokens the API serves
+ */
+const LATEST_TOKENS_LAST_PAGE = 10;
+
+const PRICE_CHANGES_OPTION: OptionSpec = {
+  name: 'price-changes',
+  type: 'boolean',
+  description: 'Include price change percentages',
+};
+
+const flag = (context: CommandContext, name: string): boolean => context.options[name] === true;
+
+const numberOption = (context: CommandContext, name: string): number | undefined => {
+  const value = context.options[name];
+  return typeof value === 'number' ? value : undefined;
+};
+
+const stringOption = (context: CommandContext, name: string): string | undefined => {
+  const value = context.options[name];
+  return value === undefined || typeof value === 'boolean' ? undefined : String(value);
+};
+
+const timeOption = (context: CommandContext, name: string): number | undefined => {
+  const value = context.options[name];
+  return value === undefined || typeof value === 'boolean' ? undefined : parseTime(value, name);
+};
+
+/**
+ * Whether all pages should be fetched: `--all`, or any of the pagination limits
+ */
+const paginate = (context: CommandContext): boolean =>
+  flag(context, 'all') || numberOption(context, 'limit') !== undefined || numberOption(context, 'max-pages') !== undefined;
+
+const paginationOptions = <T>(context: CommandContext): PaginationOptions<T> => ({
+  maxItems: numberOption(context, 'limit'),
+  maxPages: numberOption(context, 'max-pages'),
+});
+
+const tradeQuery = (context: CommandContext): TradeQueryOptions => ({
+  cursor: numberOption(context, 'cursor'),
+  showMeta: flag(context, 'show-meta') || undefined,
+  parseJupiter: flag(context, 'parse-jupiter') || undefined,
+  hideArb: flag(context, 'hide-arb') || undefined,
+});
+
+/**
+ * A single page of trades, or every trade when paginating
+ */
+const trades = (
+  context: CommandContext,
+  load: (query: TradeQueryOptions) => Promise<TradesResponse>
+): Promise<TradesResponse> | Paginator<TradeTransaction> => {
+  const query = tradeQuery(context);
+  if (!paginate(context)) {
+    return load(query);
+  }
+  return new Paginator<TradeTransaction>(async (cursor = query.cursor) => {
+    const response = await load({ ...query, cursor });
+    return { items: response.trades, next: response.hasNextPage ? response.nextCursor : undefined };
+  }, paginationOptions(context));
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * Picks the first of the given fields of a response that holds a list, e.g. the `tokens` of a wallet
+ */
+const listAt = (...names: string[]) => (response: unknown): unknown[] | undefined => {
+  const list = isObject(response) ? names.map((name) => response[name]).find(Array.isArray) : undefined;
+  return list as unknown[] | undefined;
+};
+
+/**
+ * Turns a record keyed by address or timeframe into rows, e.g. `{ <mint>: {...} }` to `[{ mint, ... }]`
+ */
+const entriesAs = (key: string) => (record: unknown): unknown[] =>
+  Object.entries(isObject(record) ? record : {}).map(([name, value]) => ({ [key]: name, ...(value as object) }));
+
+const tradeRows = listAt('trades');
+
+/**
+ * Data of a chunked call, failing the command when any chunk failed
+ */
+const chunkedData = <T>({ data, failures }: ChunkedResult<T>): T => {
+  if (failures.length > 0) {
+    throw failures[0].error;
+  }
+  return data;
+};
+
+// ======== COMMANDS ========
+
+export const COMMANDS: Command[] = [
+  // Tokens
+  {
+    path: ['token', 'info'],
+    usage: '<mint>',
+    description: 'Token details with pools, events and risk',
+    run: ({ client, args }) => client.getTokenInfo(args[0]),
+  },
+  {
+    path: ['token', 'pool'],
+    usage: '<pool>',
+    description: 'Token details looked up by pool address',
+    run: ({ client, args }) => client.getTokenByPool(args[0]),
+  },
+  {
+    path: ['token', 'holders'],
+    usage: '<mint>',
+    description: 'Token holders',
+    options: [{ name: 'top', type: 'boolean', description: 'Only the top 20 holders' }],
+    rows: (response) => (Array.isArray(response) ? response : listAt('accounts')(response)),
+    run: (context) =>
+      flag(context, 'top') ? context.client.getTopHolders(context.args[0]) : context.client.getTokenHolders(context.args[0]),
+  },
+  {
+    path: ['token', 'ath'],
+    usage: '<mint>',
+    description: 'All-time high price of a token',
+    run: ({ client, args }) => client.getAthPrice(args[0]),
+  },
+  {
+    path: ['token', 'deployer'],
+    usage: '<wallet>',
+    description: 'Tokens created by a wallet',
+    rows: listAt('tokens'),
+    run: ({ client, args }) => client.getTokensByDeployer(args[0]),
+  },
+  {
+    path: ['token', 'multi'],
+    usage: '<mints...>',
+    description: 'Details of several tokens, split into chunks of 20',
+    run: async ({ client, args }) => chunkedData(await client.getMultipleTokensChunked(args)),
+  },
+  {
+    path: ['token', 'latest'],
+    usage: '',
+    description: 'Latest tokens',
+    options: [PAGE_OPTION, ...PAGINATION_OPTIONS],
+    run: (context) => {
+      const first = numberOption(context, 'page') || 1;
+      if (!paginate(context)) {
+        return context.client.getLatestTokens(first);
+      }
+      return new Paginator(async (page = first) => {
+        const items = await context.client.getLatestTokens(page);
+        return { items, next: items.length > 0 && page < LATEST_TOKENS_LAST_PAGE ? page + 1 : undefined };
+      }, paginationOptions(context));
+    },
+  },
+  {
+    path: ['token', 'trending'],
+    usage: '[timeframe]',
+    description: 'Trending tokens, optionally for a timeframe such as 1h',
+    run: ({ client, args }) => client.getTrendingTokens(args[0] as TrendingTimeframe | undefined),
+  },
+  {
+    path: ['token', 'volume'],
+    usage: '[timeframe]',
+    description: 'Tokens with the highest volume, optionally for a timeframe such as 24h',
+    run: ({ client, args }) => client.getTokensByVolume(args[0] as VolumeTimeframe | undefined),
+  },
+  {
+    path: ['token', 'overview'],
+    usage: '',
+    description: 'Latest, graduating and graduated tokens',
+    run: ({ client }) => client.getTokenOverview(),
+  },
+  {
+    path: ['token', 'graduated'],
+    usage: '',
+    description: 'Graduated tokens',
+    run: ({ client }) => client.getGraduatedTokens(),
+  },
+  {
+    path: ['search'],
+    usage: '[query]',
+    description: 'Search tokens. Other options are sent as filters, e.g. --min-liquidity 1000 --sort-by marketCapUsd',
+    options: [...PAGINATION_OPTIONS, PAGE_OPTION],
+    passthrough: true,
+    rows: listAt('data'),
+    run: (context) => {
+      const params: Record<string, unknown> = {};
+      Object.entries(context.options)
+        .filter(([name]) => !PAGINATION_OPTIONS.some((option) => option.name === name))
+        .forEach(([name, value]) => (params[camelCase(name)] = value));
+      if (context.args[0] !== undefined) {
+        params.query = context.args[0];
+      }
+      if (!paginate(context)) {
+        return context.client.searchTokens(params as SearchParams);
+      }
+      return context.client.iterateSearch(params as SearchParams, paginationOptions(context));
+    },
+  },
+
+  // Prices
+  {
+    path: ['price', 'get'],
+    usage: '<mint>',
+    description: 'Current price of a token',
+    options: [PRICE_CHANGES_OPTION],
+    run: (context) => context.client.getPrice(context.args[0], flag(context, 'price-changes')),
+  },
+  {
+    path: ['price', 'multi'],
+    usage: '<mints...>',
+    description: 'Current prices of several tokens, split into chunks of 100',
+    options: [PRICE_CHANGES_OPTION],
+    rows: entriesAs('mint'),
+    run: async (context) =>
+      chunkedData(await context.client.getMultiplePricesChunked(context.args, flag(context, 'price-changes'))),
+  },
+  {
+    path: ['price', 'history'],
+    usage: '<mint>',
+    description: 'Current price and the price 3, 5, 7, 14 and 30 days ago',
+    run: ({ client, args }) => client.getPriceHistory(args[0]),
+  },
+  {
+    path: ['price', 'at'],
+    usage: '<mint> <time>',
+    description: 'Price at a point in time (Unix seconds, ISO date or a duration ago such as 24h)',
+    run: ({ client, args }) => client.getPriceAtTimestamp(args[0], parseTime(args[1], 'time')),
+  },
+  {
+    path: ['price', 'range'],
+    usage: '<mint> <from> <to>',
+    description: 'Lowest and highest price between two points in time',
+    run: ({ client, args }) => client.getPriceRange(args[0], parseTime(args[1], 'from'), parseTime(args[2], 'to')),
+  },
+
+  // Wallets
+  {
+    path: ['wallet', 'info'],
+    usage: '<owner>',
+    description: 'Tokens held by a wallet with their value',
+    options: [{ name: 'basic', type: 'boolean', description: 'Faster response without token details' }],
+    rows: listAt('tokens'),
+    run: (context) =>
+      flag(context, 'basic') ? context.client.getWalletBasic(context.args[0]) : context.client.getWallet(context.args[0]),
+  },
+  {
+    path: ['wallet', 'tokens'],
+    usage: '<owner>',
+    description: 'Tokens held by a wallet, 250 per page',
+    options: [PAGE_OPTION, ...PAGINATION_OPTIONS],
+    rows: listAt('tokens'),
+    run: (context) => {
+      const [owner] = context.args;
+      if (!paginate(context)) {
+        return context.client.getWalletPage(owner, numberOption(context, 'page') || 1);
+      }
+      return context.client.iterateWalletTokens(owner, paginationOptions(context));
+    },
+  },
+  {
+    path: ['wallet', 'trades'],
+    usage: '<owner>',
+    description: 'Trades of a wallet, newest first',
+    options: TRADE_OPTIONS,
+    rows: tradeRows,
+    run: (context) => trades(context, (query) => context.client.getWalletTrades(context.args[0], query)),
+  },
+
+  // Trades
+  {
+    path: ['trades', 'token'],
+    usage: '<mint> [pool]',
+    description: 'Trades of a token, optionally in one pool and by one wallet',
+    options: [...TRADE_OPTIONS, { name: 'wallet', type: 'string', description: 'Only trades by this wallet' }],
+    rows: tradeRows,
+    run: (context) => {
+      const { client } = context;
+      const [mint, pool] = context.args;
+      const wallet = stringOption(context, 'wallet');
+      return trades(context, (query) => {
+        if (pool && wallet) return client.getUserPoolTrades(mint, pool, wallet, query);
+        if (pool) return client.getPoolTrades(mint, pool, query);
+        if (wallet) return client.getUserTokenTrades(mint, wallet, query);
+        return client.getTokenTrades(mint, query);
+      });
+    },
+  },
+
+  // Charts
+  {
+    path: ['chart'],
+    usage: '<mint> [pool]',
+    description: 'OHLCV candles of a token, optionally for one pool',
+    options: [
+      { name: 'type', type: 'string', description: 'Candle interval, e.g. 1m, 1h or 1d' },
+      { name: 'from', type: 'string', description: 'Start (Unix seconds, ISO date or a duration ago such as 24h)' },
+      { name: 'to', type: 'string', description: 'End (Unix seconds, ISO date or a duration ago)' },
+      { name: 'market-cap', type: 'boolean', description: 'Chart the market cap instead of the price' },
+      { name: 'keep-outliers', type: 'boolean', description: 'Disable outlier removal' },
+      { name: 'holders', type: 'boolean', description: 'Chart the holder count instead' },
+    ],
+    rows: listAt('oclhv', 'holders'),
+    run: (context) => {
+      const { client } = context;
+      const [mint, pool] = context.args;
+      const query = {
+        type: stringOption(context, 'type') as ChartInterval | undefined,
+        timeFrom: timeOption(context, 'from'),
+        timeTo: timeOption(context, 'to'),
+      };
+      if (flag(context, 'holders')) {
+        return client.getHoldersChart(mint, query);
+      }
+      const chart = {
+        ...query,
+        marketCap: flag(context, 'market-cap') || undefined,
+        removeOutliers: flag(context, 'keep-outliers') ? false : undefined,
+      };
+      return pool ? client.getPoolChartData(mint, pool, chart) : client.getChartData(mint, chart);
+    },
+  },
+
+  // PnL
+  {
+    path: ['pnl'],
+    usage: '<wallet> [mint]',
+    description: 'Profit and loss of a wallet, or of one token in it',
+    options: [
+      { name: 'historic', type: 'boolean', description: 'Add PnL for 1d, 7d and 30d' },
+      { name: 'holding-check', type: 'boolean', description: 'Double-check the current holding value' },
+      { name: 'hide-details', type: 'boolean', description: 'Only the summary' },
+    ],
+    rows: (response) => (isObject(response) && response.tokens ? entriesAs('mint')(response.tokens) : undefined),
+    run: (context) => {
+      const [wallet, mint] = context.args;
+      if (mint) {
+        return context.client.getTokenPnL(wallet, mint);
+      }
+      return context.client.getWalletPnL(wallet, {
+        showHistoricPnL: flag(context, 'historic'),
+        holdingCheck: flag(context, 'holding-check'),
+        hideDetails: flag(context, 'hide-details'),
+      });
+    },
+  },
+  {
+    path: ['first-buyers'],
+    usage: '<mint>',
+    description: 'First 100 buyers of a token with their PnL',
+    run: ({ client, args }) => client.getFirstBuyers(args[0]),
+  },
+  {
+    path: ['top-traders'],
+    usage: '[mint]',
+    description: 'Most profitable traders overall, or of one token',
+    options: [
+      PAGE_OPTION,
+      ...PAGINATION_OPTIONS,
+      { name: 'expand-pnl', type: 'boolean', description: 'Include PnL per token' },
+      { name: 'sort-by', type: 'string', description: 'total or winPercentage' },
+    ],
+    rows: listAt('wallets'),
+    run: (context) => {
+      const { client } = context;
+      const [mint] = context.args;
+      if (mint) {
+        return client.getTokenTopTraders(mint);
+      }
+      const query = {
+        expandPnL: flag(context, 'expand-pnl') || undefined,
+        sortBy: stringOption(context, 'sort-by') as 'total' | 'winPercentage' | undefined,
+      };
+      if (!paginate(context)) {
+        return client.getTopTraders({ ...query, page: numberOption(context, 'page') });
+      }
+      return client.iterateTopTraders({ ...query, ...paginationOptions(context) });
+    },
+  },
+
+  // Stats
+  {
+    path: ['stats'],
+    usage: '<mint> [pool]',
+    description: 'Buyers, sellers, volume and price change per timeframe',
+    rows: entriesAs('timeframe'),
+    run: ({ client, args }) => (args[1] ? client.getPoolStats(args[0], args[1]) : client.getTokenStats(args[0])),
+  },
+];
@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+import { run } from './run';
+
+// Stop quietly when the output is piped into a command that exits early, e.g. `| head`
+process.stdout.on('error', (error: NodeJS.ErrnoException) => {
+  if (error.code === 'EPIPE') {
+    process.exit(0);
+  }
+  throw error;
+});
+
+run(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,154 @@
+import { ValidationError } from '../errors';
+
+export const OUTPUT_FORMATS = ['json', 'ndjson', 'csv', 'table'] as const;
+
+/**
+ * How results are printed
+ * - `json`: the response as pretty-printed JSON, paginated results as one array
+ * - `ndjson`: one JSON object per line, streamed while pages load
+ * - `csv`: one row per item with nested fields flattened to dotted columns
+ * - `table`: the same rows as an aligned text table
+ */
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/**
+ * Destination of the output, e.g. `process.stdout`
+ */
+export interface OutputStream {
+  write(chunk: string): unknown;
+}
+
+export interface OutputOptions {
+  /** Columns to print for csv and table output, in order. Defaults to every field. */
+  columns?: string[];
+  /** Picks the list of items out of a response, e.g. the trades of a trades response */
+  rows?: (value: unknown) => unknown[] | undefined;
+}
+
+/**
+ * Widest cell of a table column, longer values are cut off
+ */
+const MAX_TABLE_CELL = 48;
+
+/**
+ * Checks an `--output` value
+ * @param value The value passed on the command line
+ * @throws ValidationError for unsupported formats
+ */
+export function assertOutputFormat(value: unknown): asserts value is OutputFormat {
+  if (!(OUTPUT_FORMATS as readonly unknown[]).includes(value)) {
+    throw new ValidationError(`Invalid output format: ${value}. Must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+}
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<unknown> =>
+  typeof value === 'object' && value !== null && Symbol.asyncIterator in value;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Flattens nested objects into dotted keys, e.g. `{ price: { usd: 1 } }` to `{ 'price.usd': 1 }`.
+ * Arrays are kept as JSON.
+ */
+export function flatten(value: unknown, prefix = '', target: Record<string, unknown> = {}): Record<string, unknown> {
+  if (!isPlainObject(value)) {
+    target[prefix || 'value'] = value;
+    return target;
+  }
+  for (const [key, item] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(item) && Object.keys(item).length > 0) {
+      flatten(item, path, target);
+    } else {
+      target[path] = item;
+    }
+  }
+  return target;
+}
+
+const cellText = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const csvCell = (value: unknown): string => {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const columnsOf = (rows: Record<string, unknown>[]): string[] => {
+  const columns = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((key) => columns.add(key)));
+  return Array.from(columns);
+};
+
+const formatCsv = (rows: Record<string, unknown>[], columns: string[]): string =>
+  [columns.map(csvCell).join(','), ...rows.map((row) => columns.map((column) => csvCell(row[column])).join(','))]
+    .map((line) => `${line}\n`)
+    .join('');
+
+const formatTable = (rows: Record<string, unknown>[], columns: string[]): string => {
+  const cut = (text: string) => (text.length > MAX_TABLE_CELL ? `${text.slice(0, MAX_TABLE_CELL - 1)}…` : text);
+  const cells = rows.map((row) => columns.map((column) => cut(cellText(row[column]).replace(/\s+/g, ' '))));
+  const widths = columns.map((column, index) =>
+    Math.max(cut(column).length, ...cells.map((row) => row[index].length))
+  );
+  const line = (values: string[]) => values.map((value, index) => value.padEnd(widths[index])).join('  ').trimEnd();
+
+  return [
+    line(columns.map(cut)),
+    line(widths.map((width) => '-'.repeat(width))),
+    ...cells.map(line),
+  ]
+    .map((text) => `${text}\n`)
+    .join('');
+};
+
+/**
+ * Prints a command result
+ * @param result A response, or an async iterable of items for paginated results
+ * @param format Output format
+ * @param out Stream to write to
+ * @param options Column selection and row extraction
+ */
+export async function writeOutput(
+  result: unknown,
+  format: OutputFormat,
+  out: OutputStream,
+  options: OutputOptions = {}
+): Promise<void> {
+  let items: unknown[] | undefined;
+  if (isAsyncIterable(result)) {
+    items = [];
+    for await (const item of result) {
+      if (format === 'ndjson') {
+        out.write(`${JSON.stringify(item)}\n`);
+      } else {
+        items.push(item);
+      }
+    }
+    if (format === 'ndjson') {
+      return;
+    }
+    result = items;
+  } else {
+    items = Array.isArray(result) ? result : options.rows && result !== undefined ? options.rows(result) : undefined;
+  }
+
+  if (format === 'json') {
+    out.write(`${JSON.stringify(result, null, 2)}\n`);
+    return;
+  }
+
+  const list = items || [result];
+  if (format === 'ndjson') {
+    list.forEach((item) => out.write(`${JSON.stringify(item)}\n`));
+    return;
+  }
+
+  const rows = list.map((item) => flatten(item));
+  const columns = options.columns && options.columns.length > 0 ? options.columns : columnsOf(rows);
+  out.write(format === 'csv' ? formatCsv(rows, columns) : formatTable(rows, columns));
+}
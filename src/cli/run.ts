@@ -0,0 +1,201 @@
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { Client, DataApiConfig } from '../data-api';
+import { ValidationError } from '../errors';
+import { OptionSpec, parseArgs } from './args';
+import { COMMANDS, Command } from './commands';
+import { OUTPUT_FORMATS, OutputStream, assertOutputFormat, writeOutput } from './output';
+
+/**
+ * Environment the CLI runs in, replaceable for embedding and tests
+ */
+export interface CliEnvironment {
+  env: Record<string, string | undefined>;
+  stdout: OutputStream;
+  stderr: OutputStream;
+  /** Creates the client from the resolved config */
+  createClient: (config: DataApiConfig) => Client;
+}
+
+const GLOBAL_OPTIONS: OptionSpec[] = [
+  { name: 'output', alias: 'o', type: 'string', description: `Output format: ${OUTPUT_FORMATS.join(', ')} (default: json)` },
+  { name: 'columns', type: 'string', description: 'Comma-separated columns for csv and table output' },
+  { name: 'api-key', type: 'string', description: 'API key (default: $SOLANA_TRACKER_API_KEY or the config file)' },
+  { name: 'base-url', type: 'string', description: 'Base URL of the API' },
+  { name: 'config', type: 'string', description: 'Config file (default: $SOLANA_TRACKER_CONFIG or ~/.solana-tracker.json)' },
+  { name: 'timeout', type: 'number', description: 'Request timeout in milliseconds' },
+  { name: 'retry', type: 'boolean', description: 'Retry failed requests with backoff' },
+  { name: 'help', alias: 'h', type: 'boolean', description: 'Show help' },
+];
+
+const BIN = 'solana-tracker';
+
+/**
+ * Exit code for invalid arguments, as opposed to 1 for failed requests
+ */
+const USAGE_ERROR = 2;
+
+const formatOptions = (options: OptionSpec[]): string => {
+  const labels = options.map(
+    (option) => `${option.alias ? `-${option.alias}, ` : '    '}--${option.name}${option.type === 'boolean' ? '' : ` <${option.type}>`}`
+  );
+  const width = Math.max(...labels.map((label) => label.length));
+  return labels.map((label, index) => `  ${label.padEnd(width)}  ${options[index].description}`).join('\n');
+};
+
+const commandLine = (command: Command): string => [BIN, ...command.path, command.usage].filter(Boolean).join(' ');
+
+const generalHelp = (prefix: string[] = []): string => {
+  const commands = COMMANDS.filter((command) => prefix.every((word, index) => command.path[index] === word));
+  const lines = commands.map((command) => [command.path.join(' '), command.usage].filter(Boolean).join(' '));
+  const width = Math.max(...lines.map((line) => line.length));
+  return [
+    `Usage: ${[BIN, ...prefix].join(' ')} <command> [options]`,
+    '',
+    'Commands:',
+    ...commands.map((command, index) => `  ${lines[index].padEnd(width)}  ${command.description}`),
+    '',
+    'Global options:',
+    formatOptions(GLOBAL_OPTIONS),
+    '',
+  ].join('\n');
+};
+
+const commandHelp = (command: Command): string =>
+  [
+    `Usage: ${commandLine(command)} [options]`,
+    '',
+    command.description,
+    '',
+    ...(command.options ? ['Options:', formatOptions(command.options), ''] : []),
+    'Global options:',
+    formatOptions(GLOBAL_OPTIONS),
+    '',
+  ].join('\n');
+
+/**
+ * Finds the command named by the leading words of the arguments, skipping global options and their values
+ * @returns The command and the arguments with the command words removed
+ */
+const resolveCommand = (argv: string[]): { command?: Command; words: string[]; rest: string[] } => {
+  const words: { word: string; index: number }[] = [];
+  for (let i = 0; i < argv.length && words.length < 2; i++) {
+    const arg = argv[i];
+    if (arg === '--') break;
+    if (arg.startsWith('-')) {
+      const spec = GLOBAL_OPTIONS.find((option) => `--${option.name}` === arg || `-${option.alias}` === arg);
+      if (spec && spec.type !== 'boolean') i++;
+      continue;
+    }
+    words.push({ word: arg, index: i });
+  }
+
+  const command = COMMANDS.find((item) => item.path.every((word, index) => words[index]?.word === word));
+  const used = command ? words.slice(0, command.path.length).map((item) => item.index) : [];
+  return {
+    command,
+    words: words.map((item) => item.word),
+    rest: argv.filter((_, index) => !used.includes(index)),
+  };
+};
+
+/**
+ * Checks the positional arguments against the usage of a command, e.g. `<mint> [pool]`
+ */
+const checkArity = (command: Command, args: string[]): void => {
+  const params = command.usage.split(' ').filter(Boolean);
+  const required = params.filter((param) => param.startsWith('<')).length;
+  const variadic = params.some((param) => param.endsWith('...>') || param.endsWith('...]'));
+  if (args.length < required) {
+    throw new ValidationError(`Missing arguments. Usage: ${commandLine(command)}`);
+  }
+  if (!variadic && args.length > params.length) {
+    throw new ValidationError(`Unexpected argument: ${args[params.length]}. Usage: ${commandLine(command)}`);
+  }
+};
+
+/**
+ * Reads the config file, if there is one
+ * @param path Explicit path, which must exist
+ * @param env Environment variables
+ */
+const readConfigFile = (path: string | undefined, env: CliEnvironment['env']): Partial<DataApiConfig> => {
+  const file = path || env.SOLANA_TRACKER_CONFIG || join(homedir(), '.solana-tracker.json');
+  if (!path && !env.SOLANA_TRACKER_CONFIG && !existsSync(file)) {
+    return {};
+  }
+  try {
+    return JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new ValidationError(`Could not read config file ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+/**
+ * Runs the CLI
+ * @param argv Arguments after the executable, e.g. `['token', 'info', '<mint>']`
+ * @param environment Environment variables, output streams and client factory
+ * @returns The exit code
+ */
+export async function run(argv: string[], environment: Partial<CliEnvironment> = {}): Promise<number> {
+  const {
+    env = process.env,
+    stdout = process.stdout,
+    stderr = process.stderr,
+    createClient = (config: DataApiConfig) => new Client(config),
+  } = environment;
+
+  const { command, words, rest } = resolveCommand(argv);
+  try {
+    if (!command) {
+      const known = COMMANDS.some((item) => item.path[0] === words[0]);
+      const help = generalHelp(known ? words.slice(0, 1) : []);
+      if (argv.length === 0 || argv.includes('--help') || argv.includes('-h')) {
+        stdout.write(help);
+        return 0;
+      }
+      stderr.write(known && words.length === 1 ? help : `Unknown command: ${words.join(' ') || argv[0]}\n\n${help}`);
+      return USAGE_ERROR;
+    }
+
+    const { positionals, options } = parseArgs(rest, [...GLOBAL_OPTIONS, ...(command.options || [])], command.passthrough);
+    if (options.help) {
+      stdout.write(commandHelp(command));
+      return 0;
+    }
+    checkArity(command, positionals);
+
+    const format = options.output ?? 'json';
+    assertOutputFormat(format);
+
+    const file = readConfigFile(options.config as string | undefined, env);
+    const config: DataApiConfig = {
+      ...file,
+      apiKey: (options['api-key'] as string | undefined) || env.SOLANA_TRACKER_API_KEY || file.apiKey,
+      baseUrl: (options['base-url'] as string | undefined) || env.SOLANA_TRACKER_BASE_URL || file.baseUrl,
+      timeoutMs: (options.timeout as number | undefined) ?? file.timeoutMs,
+      retry: options.retry === true || file.retry,
+    };
+    if (!config.apiKey && !config.apiKeys && !config.proxyUrl) {
+      throw new ValidationError(
+        'No API key found. Pass --api-key, set SOLANA_TRACKER_API_KEY or add "apiKey" to ~/.solana-tracker.json'
+      );
+    }
+
+    // Global and command options share one namespace, hand the command only its own
+    const commandOptions = { ...options };
+    GLOBAL_OPTIONS.forEach((option) => delete commandOptions[option.name]);
+
+    const client = createClient(config);
+    const result = await command.run({ client, args: positionals, options: commandOptions });
+    await writeOutput(result, format, stdout, {
+      columns: typeof options.columns === 'string' ? options.columns.split(',').map((column) => column.trim()) : undefined,
+      rows: command.rows,
+    });
+    return 0;
+  } catch (error) {
+    stderr.write(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return error instanceof ValidationError ? USAGE_ERROR : 1;
+  }
+}
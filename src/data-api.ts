@@ -1,3 +1,4 @@
+import { EventEmitter } from 'events';
 import {
   TokenDetailResponse,
   TokenHoldersResponse,
@@ -21,110 +22,782 @@ import {
   TokenPnLResponse,
   FirstBuyerData,
   TopTradersResponse,
-  TokenStats
+  TokenStats,
+  TradeQueryOptions,
+  ChartQueryOptions,
+  HoldersChartQueryOptions,
+  WalletPnLQueryOptions,
+  TopTradersQueryOptions,
+  TradeTransaction,
+  WalletTokenDetail,
+  SearchResult,
+  TopTrader
 } from './interfaces';
-
-export class DataApiError extends Error {
-  constructor(
-    message: string,
-    public status?: number,
-    public code?: string
-  ) {
-    super(message);
-    this.name = 'DataApiError';
-  }
-}
-
-export class RateLimitError extends DataApiError {
-  constructor(message: string, public retryAfter?: number) {
-    super(message, 429, 'RATE_LIMIT_EXCEEDED');
-    this.name = 'RateLimitError';
-  }
-}
-
-export class ValidationError extends DataApiError {
-  constructor(message: string) {
-    super(message, 400, 'VALIDATION_ERROR');
-    this.name = 'ValidationError';
-  }
-}
+import {
+  DataApiError,
+  RateLimitError,
+  ValidationError,
+  AuthenticationError,
+  NotFoundError,
+  NetworkError,
+  ResponseParseError,
+  ResponseValidationError,
+  QueueFullError,
+  TimeoutError,
+  AbortError,
+  CircuitOpenError,
+  createHttpError
+} from './errors';
+import { Cancellation } from './cancellation';
+import { FetchLike, FetchResponseLike, defaultFetch, headersToObject } from './transport';
+import { Middleware, RequestContext, compose } from './middleware';
+import { CacheConfig, ResponseCache } from './cache';
+import { DedupeStats, RequestCoalescer } from './dedupe';
+import { BatchingConfig, RequestBatcher } from './batcher';
+import { ChunkedCallOptions, ChunkedResult, chunk, resolveChunkSize, runChunks } from './chunking';
+import { PaginationOptions, Paginator, TopTradersPaginationOptions, TradePaginationOptions } from './pagination';
+import { matchRoute } from './routes';
+import { RequestMetrics, RequestTelemetry, TelemetryAdapter, TelemetrySpan, byteLength } from './instrumentation';
+import { UsageConfig, UsageSnapshot, UsageTracker } from './usage';
+import { MintAddressLike, PoolAddressLike, WalletAddressLike, assertPublicKey } from './address';
+import {
+  ChartInterval,
+  TrendingTimeframe,
+  VolumeTimeframe,
+  assertChartInterval,
+  assertTrendingTimeframe,
+  assertVolumeTimeframe,
+} from './timeframes';
+import { SearchBuilder, validateSearchParams } from './search';
+import { ApiKeyHealth, ApiKeyPool, ApiKeyPoolConfig, PooledApiKey } from './api-keys';
+import { BaseUrlHealth, BaseUrlPool, BaseUrlPoolConfig, PooledBaseUrl, isConnectionFailure } from './base-urls';
+import { CircuitBreaker, CircuitBreakerConfig, CircuitPermit, CircuitSnapshot } from './circuit-breaker';
+import { validate } from './schema';
+import { RESPONSE_SCHEMAS } from './schemas';
+import { RateLimiter, RateLimiterConfig } from './rate-limiter';
+import { RetryConfig, ResolvedRetryConfig, resolveRetryConfig, getRetryDelay, isIdempotentMethod, parseRetryAfter, sleep } from './retry';
+
+export {
+  DataApiError,
+  RateLimitError,
+  ValidationError,
+  AuthenticationError,
+  NotFoundError,
+  NetworkError,
+  ResponseParseError,
+  ResponseValidationError,
+  QueueFullError,
+  TimeoutError,
+  AbortError,
+  CircuitOpenError
+};
 
 /**
  * Config options for the Solana Tracker Data API
  */
 export interface DataApiConfig {
-  /** Your API key from solanatracker.io */
-  apiKey: string;
+  /** Your API key from solanatracker.io. Required unless `apiKeys` or `proxyUrl` is set. */
+  apiKey?: string;
+  /**
+   * Several API keys used as a pool. Requests move to the next key when one is rate limited (429)
+   * or rejected (401). Pass a list of keys to rotate through them round-robin, or a config to pick
+   * another strategy.
+   */
+  apiKeys?: string[] | ApiKeyPoolConfig;
   /** Optional base URL override */
   baseUrl?: string;
+  /**
+   * Several base URLs in order of preference, e.g. an internal mirror followed by the public endpoint.
+   * Requests fail over to the next URL on network errors and 5xx responses; URLs that keep failing
+   * are skipped until a recovery probe succeeds. Takes precedence over `baseUrl`.
+   */
+  baseUrls?: string[] | BaseUrlPoolConfig;
+  /**
+   * URL of a proxy created with `createProxyHandler`, e.g. `/api/solana-tracker`.
+   * Requests go to the proxy without an API key, for use in browsers. Takes precedence over `baseUrl(s)`.
+   */
+  proxyUrl?: string;
+  /**
+   * Retry failed requests with exponential backoff.
+   * Pass true to use the default policy or an object to customise it.
+   * @default false
+   */
+  retry?: boolean | RetryConfig;
+  /**
+   * Client-side rate limit. Requests over the limit are queued instead of being sent.
+   * Pass a RateLimiter instance to share one limiter between several clients.
+   */
+  rateLimit?: RateLimiterConfig | RateLimiter;
+  /**
+   * Maximum time in milliseconds a call may take, including queueing and retries.
+   * Calls that exceed it fail with a TimeoutError.
+   */
+  timeoutMs?: number;
+  /**
+   * Custom fetch implementation, e.g. a proxy-aware fetch or a test double.
+   * Defaults to the global fetch, falling back to node-fetch on older Node.js versions.
+   */
+  fetch?: FetchLike;
+  /**
+   * HTTP(S) agent passed to fetch, e.g. a keep-alive or proxy agent.
+   * Only honoured by node-fetch based transports; the native fetch ignores it.
+   */
+  agent?: unknown;
+  /**
+   * Cache GET responses with per-endpoint TTLs.
+   * Pass true to use an in-memory LRU store with the default TTLs.
+   * @default false
+   */
+  cache?: boolean | CacheConfig;
+  /**
+   * Share a single in-flight request between concurrent identical GET calls
+   * @default true
+   */
+  dedupe?: boolean;
+  /**
+   * Merge getPrice and getTokenInfo calls made within a short window into
+   * postMultiplePrices and getMultipleTokens requests.
+   * @default false
+   */
+  batching?: boolean | BatchingConfig;
+  /**
+   * Validate responses against the expected schema at runtime.
+   * `warn` logs mismatches, `strict` throws a ResponseValidationError for missing or mistyped fields.
+   * Unknown extra fields are only ever logged.
+   * @default 'off'
+   */
+  validation?: ValidationMode;
+  /**
+   * OpenTelemetry-compatible tracer and meter that receive a span and metrics for every call.
+   * Metrics are also emitted as the `metrics` event regardless of this option.
+   */
+  telemetry?: TelemetryAdapter;
+  /**
+   * Thresholds for the `usage-threshold` event, emitted when the remaining requests reported
+   * by the API's rate limit headers drop below a fraction of the limit
+   */
+  usage?: UsageConfig;
+  /**
+   * Fail fast with a CircuitOpenError for routes that keep failing with network errors or 5xx responses.
+   * Pass true to use the default thresholds or an object to customise them.
+   * @default false
+   */
+  circuitBreaker?: boolean | CircuitBreakerConfig;
+}
+
+export type ValidationMode = 'off' | 'warn' | 'strict';
+
+/**
+ * Per-call options accepted by every Client method
+ */
+export interface CallOptions {
+  /** Signal that cancels the call with an AbortError when aborted */
+  signal?: AbortSignal;
+  /** Timeout in milliseconds for this call, overriding DataApiConfig.timeoutMs */
+  timeoutMs?: number;
+  /** Set to false to skip the cache lookup for this call. The fresh response is still cached. */
+  cache?: boolean;
+  /**
+   * Set to false to always send a separate request for this call.
+   * Calls with a signal or their own timeoutMs are never coalesced, so cancelling one can't affect another.
+   */
+  dedupe?: boolean;
+  /** Set to false to send this call on its own even when batching is enabled */
+  batch?: boolean;
 }
 
-export interface RequestOptions {
-  method: string;
-  body: any;
+export interface RequestOptions extends CallOptions {
+  method?: string;
+  body?: any;
   /** Optional headers to include in the request */
   headers?: Record<string, string>;
   /** Disable logs for rate limit warnings */
   disableLogs?: boolean;
+  /**
+   * Whether the request may safely be sent more than once. Defaults to true for idempotent methods such as GET;
+   * set it for POST requests that only read data so they remain eligible for retries.
+   */
+  idempotent?: boolean;
+}
+
+/**
+ * Counters collected while sending a single call
+ */
+interface CallStats {
+  attempts: number;
+  rateLimitHits: number;
+  queuedMs: number;
+  bytes: number;
 }
 /**
- * Solana Tracker Data API client
+ * Host name of a base URL for telemetry, relative proxy URLs are reported as they are
+ */
+const hostnameOf = (url: string): string => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Results per search page when the search has no `limit`
+ */
+const DEFAULT_SEARCH_LIMIT = 100;
+
+/**
+ * Tokens per page of the paginated wallet endpoint
  */
-export class Client {
-  private apiKey: string;
-  private baseUrl: string;
+const WALLET_PAGE_SIZE = 250;
+
+/**
+ * Traders per page of the paginated top traders endpoint
+ */
+const TOP_TRADERS_PAGE_SIZE = 100;
+
+/**
+ * Tells the options-object call style apart from the positional one
+ */
+const isQueryOptions = <T extends object>(value: T | string | number | boolean | undefined): value is T =>
+  typeof value === 'object' && value !== null;
+
+/**
+ * Solana Tracker Data API client.
+ * Emits a `metrics` event with the RequestMetrics of every call once it settles,
+ * a `usage` event with the UsageSnapshot whenever the API reports rate limit headers,
+ * a `usage-threshold` event with a UsageThresholdEvent when a usage threshold is crossed,
+ * a `base-url-status` event with the BaseUrlHealth of a base URL that became unhealthy or recovered,
+ * and a `circuit-state-change` event with a CircuitStateChange when a route's circuit opens, half-opens or closes.
+ */
+export class Client extends EventEmitter {
+  private keyPool: ApiKeyPool | null = null;
+  private urlPool: BaseUrlPool;
+  private retryConfig: ResolvedRetryConfig | null;
+  private rateLimiter: RateLimiter | null = null;
+  private timeoutMs?: number;
+  private fetchImpl: FetchLike;
+  private agent?: unknown;
+  private middleware: Middleware[] = [];
+  private cache: ResponseCache | null = null;
+  private coalescer: RequestCoalescer | null;
+  private batcher: RequestBatcher | null = null;
+  private validation: ValidationMode;
+  private telemetry: RequestTelemetry | null = null;
+  private usageTracker: UsageTracker;
+  private logUsageWarnings: boolean;
+  private circuitBreaker: CircuitBreaker | null = null;
 
   /**
    * Creates a new instance of the Solana Tracker Data API client
    * @param config Configuration options including API key
    */
   constructor(config: DataApiConfig) {
-    this.apiKey = config.apiKey;
-    this.baseUrl = config.baseUrl || 'https://data.solanatracker.io';
+    super();
+    const keys = Array.isArray(config.apiKeys) ? { keys: config.apiKeys } : config.apiKeys;
+    if (!config.proxyUrl) {
+      if (!keys && !config.apiKey) {
+        throw new ValidationError('An apiKey, apiKeys or proxyUrl is required');
+      }
+      this.keyPool = new ApiKeyPool(keys || { keys: [config.apiKey as string] });
+    }
+    this.retryConfig = resolveRetryConfig(config.retry);
+    this.timeoutMs = config.timeoutMs;
+    this.fetchImpl = config.fetch || defaultFetch;
+    let baseUrls: BaseUrlPoolConfig;
+    if (config.proxyUrl) {
+      baseUrls = { urls: [config.proxyUrl] };
+    } else if (Array.isArray(config.baseUrls)) {
+      baseUrls = { urls: config.baseUrls };
+    } else {
+      baseUrls = config.baseUrls || { urls: [config.baseUrl || 'https://data.solanatracker.io'] };
+    }
+    this.urlPool = new BaseUrlPool(
+      baseUrls,
+      this.fetchImpl,
+      (health) => this.emit('base-url-status', health)
+    );
+    this.agent = config.agent;
+    this.coalescer = config.dedupe === false ? null : new RequestCoalescer();
+    this.validation = config.validation || 'off';
+    this.usageTracker = new UsageTracker(config.usage);
+    this.logUsageWarnings = config.usage?.logWarnings === true;
+
+    if (config.telemetry) {
+      this.telemetry = new RequestTelemetry(config.telemetry, hostnameOf(this.urlPool.primary));
+    }
+
+    if (config.batching) {
+      // The merged requests are POSTs but only read data, so they stay as retryable as the GETs they replace
+      const read: RequestOptions = { idempotent: true };
+      this.batcher = new RequestBatcher(
+        {
+          prices: (tokenAddresses, priceChanges) => this.postMultiplePrices(tokenAddresses, priceChanges, read),
+          tokens: (tokenAddresses) => this.getMultipleTokens(tokenAddresses, read),
+        },
+        config.batching === true ? {} : config.batching
+      );
+    }
+
+    if (config.circuitBreaker) {
+      this.circuitBreaker = new CircuitBreaker(
+        config.circuitBreaker === true ? {} : config.circuitBreaker,
+        (change) => this.emit('circuit-state-change', change)
+      );
+    }
+
+    if (config.cache) {
+      this.cache = new ResponseCache(config.cache === true ? {} : config.cache);
+    }
+
+    if (config.rateLimit instanceof RateLimiter) {
+      this.rateLimiter = config.rateLimit;
+    } else if (config.rateLimit) {
+      this.rateLimiter = config.rateLimit.shared
+        ? RateLimiter.shared(this.keyPool ? this.keyPool.id : this.urlPool.primary, config.rateLimit)
+        : new RateLimiter(config.rateLimit);
+    }
+  }
+
+  /**
+   * Number of requests waiting in the client-side rate limiter queue
+   */
+  get queueDepth(): number {
+    return this.rateLimiter ? this.rateLimiter.queueDepth : 0;
+  }
+
+  /**
+   * API usage observed so far: the rate limit reported by the API and the requests sent per endpoint
+   */
+  get usage(): UsageSnapshot {
+    return this.usageTracker.current;
+  }
+
+  /**
+   * Health and usage of each configured API key: whether it is rate limited or was rejected,
+   * and the usage the API reported for it
+   */
+  get apiKeyHealth(): ApiKeyHealth[] {
+    return this.keyPool ? this.keyPool.health : [];
   }
 
   /**
-   * Makes a request to the API
+   * Health of each configured base URL: consecutive failures, latency and whether it is skipped
+   */
+  get baseUrlHealth(): BaseUrlHealth[] {
+    return this.urlPool.health;
+  }
+
+  /**
+   * Circuit breaker state of every route called so far, keyed by route template
+   */
+  get circuits(): Record<string, CircuitSnapshot> {
+    return this.circuitBreaker ? this.circuitBreaker.snapshot : {};
+  }
+
+  /**
+   * Closes the circuit of a route so calls are sent again right away
+   * @param route Route template, e.g. `/pnl/:wallet`; all routes if omitted
+   */
+  resetCircuit(route?: string): void {
+    if (this.circuitBreaker) {
+      this.circuitBreaker.reset(route);
+    }
+  }
+
+  /**
+   * Sends a request for a raw endpoint path through the full request pipeline:
+   * API keys, base URLs, retries, rate limiting, circuit breaker, caching and middleware
+   * @param endpoint Endpoint path including the query string, e.g. `/tokens/<mint>`
+   * @param options Method, body and per-call options
+   * @returns The parsed response body
+   * @internal Used by the proxy handler
+   */
+  forward<T = unknown>(endpoint: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>(endpoint, options);
+  }
+
+  /**
+   * Adds a middleware to the end of the request chain.
+   * Middleware run in the order they were added for every API call.
+   * @param middleware The middleware to add
+   * @returns Reference to this instance for chaining
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Statistics about concurrent identical requests that were coalesced into one
+   */
+  getDedupeStats(): DedupeStats {
+    return this.coalescer ? this.coalescer.stats : { coalesced: 0, inFlight: 0 };
+  }
+
+  /**
+   * Removes every cached response for a token, pool or wallet address
+   * @param address The address to invalidate
+   */
+  async invalidateToken(address: string): Promise<void> {
+    if (this.cache) {
+      await this.cache.invalidate(address);
+    }
+  }
+
+  /**
+   * Removes every cached response
+   */
+  async clearCache(): Promise<void> {
+    if (this.cache) {
+      await this.cache.clear();
+    }
+  }
+
+  /**
+   * Makes a request to the API through the middleware chain
    * @param endpoint The API endpoint
    * @param options Additional fetch options
    * @returns The API response
    */
   private async request<T>(endpoint: string, options?: RequestOptions): Promise<T> {
-    const headers = {
-      'x-api-key': this.apiKey,
-      'Content-Type': 'application/json',
-      ...options?.headers,
+    const cancellation = new Cancellation(options?.signal, options?.timeoutMs ?? this.timeoutMs);
+    const context: RequestContext = {
+      endpoint,
+      baseUrl: this.urlPool.primary,
+      method: options?.method || 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...options?.headers,
+      },
+      body: options?.body,
+      signal: cancellation.signal,
+      state: {},
     };
+    const stats: CallStats = { attempts: 0, rateLimitHits: 0, queuedMs: 0, bytes: 0 };
+    const startTime = Date.now();
+    const route = matchRoute(endpoint).template;
+    const span = this.telemetry?.startSpan(context.method, route, startTime);
+    let failure: unknown;
 
     try {
-      const response = await fetch(`${this.baseUrl}${endpoint}`, {
-        ...options,
-        headers,
+      const middleware = [...this.middleware];
+      if (this.cache) {
+        middleware.push(this.cache.middleware(options?.cache === false));
+      }
+      if (this.coalescer) {
+        // A call's own signal or timeout must not cancel the callers sharing its request
+        middleware.push(
+          this.coalescer.middleware(
+            options?.dedupe !== false && !options?.signal && options?.timeoutMs === undefined
+          )
+        );
+      }
+      if (this.batcher) {
+        middleware.push(this.batcher.middleware(options?.batch !== false));
+      }
+      const run = compose(middleware, async (ctx) => {
+        const result = await this.send(ctx, cancellation, stats, options);
+        this.validateResponse(ctx, result);
+        return result;
+      });
+      return (await cancellation.race(run(context))) as T;
+    } catch (error) {
+      if (error instanceof DataApiError && !error.endpoint) {
+        error.endpoint = context.endpoint;
+        error.method = context.method;
+      }
+      failure = error;
+      throw error;
+    } finally {
+      cancellation.dispose();
+      this.reportMetrics(span, {
+        route,
+        endpoint: context.endpoint,
+        method: context.method,
+        status: context.response?.status ?? (failure instanceof DataApiError ? failure.status : undefined),
+        startTime,
+        durationMs: Date.now() - startTime,
+        bytes: stats.bytes,
+        attempts: stats.attempts,
+        retries: Math.max(0, stats.attempts - 1),
+        rateLimitHits: stats.rateLimitHits,
+        queuedMs: stats.queuedMs,
+        cacheHit: context.state.cacheHit === true,
+        coalesced: context.state.coalesced === true,
+        error: failure,
       });
+    }
+  }
+
+  /**
+   * Emits the metrics of a settled call and forwards them to the telemetry adapter
+   * @param span The span started for the call, if tracing is enabled
+   * @param metrics Metrics of the call
+   */
+  private reportMetrics(span: TelemetrySpan | undefined, metrics: RequestMetrics): void {
+    if (this.telemetry) {
+      this.telemetry.finish(span, metrics);
+    }
+    this.emit('metrics', metrics);
+  }
+
+  /**
+   * Checks a response against the schema for its endpoint, according to the validation mode
+   * @param context The request context
+   * @param result The parsed response body
+   * @throws ResponseValidationError in strict mode if required fields are missing or mistyped
+   */
+  private validateResponse(context: RequestContext, result: unknown): void {
+    if (this.validation === 'off') {
+      return;
+    }
+    const schema = RESPONSE_SCHEMAS[matchRoute(context.endpoint).template];
+    if (!schema) {
+      return;
+    }
+
+    const issues = validate(schema, result);
+    if (issues.length === 0) {
+      return;
+    }
+
+    const mismatches = issues.filter((issue) => issue.kind !== 'unknown');
+    if (this.validation === 'strict' && mismatches.length > 0) {
+      throw new ResponseValidationError(
+        `Response from ${context.endpoint} does not match the expected schema: ${mismatches
+          .slice(0, 5)
+          .map((issue) => issue.message)
+          .join('; ')}${mismatches.length > 5 ? ` (and ${mismatches.length - 5} more)` : ''}`,
+        issues,
+        { endpoint: context.endpoint, method: context.method, body: result }
+      );
+    }
+
+    const shown = issues.slice(0, 20).map((issue) => `  - ${issue.message}`);
+    if (issues.length > shown.length) {
+      shown.push(`  ... and ${issues.length - shown.length} more`);
+    }
+    console.warn(`Unexpected response shape from ${context.endpoint}:\n${shown.join('\n')}`);
+  }
+
+  /**
+   * Sends a request, moving to another API key when one is rate limited or rejected and to another
+   * base URL when one fails, and retrying according to the configured retry policy.
+   * Every attempt passes the circuit breaker, so retries stop as soon as the route's circuit opens.
+   * @param context The request context
+   * @param cancellation Cancellation state of the call
+   * @param stats Counters updated for every attempt
+   * @param options Additional fetch options
+   * @returns The parsed response body
+   */
+  private async send(
+    context: RequestContext,
+    cancellation: Cancellation,
+    stats: CallStats,
+    options?: RequestOptions
+  ): Promise<unknown> {
+    const failedKeys = new Set<PooledApiKey>();
+    const failedUrls = new Set<PooledBaseUrl>();
+    // A base URL set by middleware is used as is, without failover
+    const useUrlPool = context.baseUrl === this.urlPool.primary;
+    const route = matchRoute(context.endpoint).template;
+    const idempotent = options?.idempotent ?? isIdempotentMethod(context.method);
+    const resendable = idempotent || Boolean(this.retryConfig?.retryNonIdempotent);
+    for (let attempt = 1; ; ) {
+      let apiKey: PooledApiKey | undefined;
+      let baseUrl: PooledBaseUrl | undefined;
+      let permit: CircuitPermit | undefined;
+      try {
+        // Fail fast on an open circuit, before using up a rate limit token or counting a key or URL request
+        this.circuitBreaker?.check(route);
+        if (this.rateLimiter) {
+          const queuedAt = Date.now();
+          await cancellation.race(this.rateLimiter.acquire(cancellation.signal));
+          stats.queuedMs += Date.now() - queuedAt;
+        }
+        apiKey = this.keyPool ? this.keyPool.acquire(failedKeys) : undefined;
+        baseUrl = useUrlPool ? this.urlPool.acquire(failedUrls) : undefined;
+        // Taken last, so a trial slot is only held while the request is actually in flight
+        permit = this.circuitBreaker?.acquire(route);
+        stats.attempts++;
+        this.usageTracker.recordRequest(route);
+        apiKey?.usage.recordRequest(route);
+        const sentAt = Date.now();
+        const result = await cancellation.race(
+          this.performRequest(context, stats, apiKey, baseUrl?.url ?? context.baseUrl, cancellation.signal, options)
+        );
+        if (this.keyPool && apiKey) {
+          this.keyPool.recordSuccess(apiKey);
+        }
+        if (this.circuitBreaker && permit) {
+          this.circuitBreaker.record(permit);
+        }
+        if (baseUrl) {
+          this.urlPool.recordSuccess(baseUrl, Date.now() - sentAt);
+        }
+        return result;
+      } catch (error) {
+        if (error instanceof RateLimitError) {
+          stats.rateLimitHits++;
+        }
+        if (this.circuitBreaker && permit) {
+          if (cancellation.reason) {
+            this.circuitBreaker.release(permit);
+          } else {
+            this.circuitBreaker.record(permit, error);
+          }
+        }
+        cancellation.throwIfCancelled();
 
-      if (!response.ok) {
-        if (response.status === 429) {
-          const retryAfter = response.headers.get('Retry-After');
-          if (options?.disableLogs) {
-            console.warn(`Rate limit exceeded for ${endpoint}. Retry after: ${retryAfter || '1'} seconds`);
+        // Fail over to another key or URL right away, without using up a retry attempt
+        if (this.keyPool && apiKey && this.keyPool.recordFailure(apiKey, error) && this.keyPool.size > 1) {
+          failedKeys.add(apiKey);
+          if (this.keyPool.hasAlternative(failedKeys)) {
+            continue;
+          }
+        }
+        // A URL that failed may still have processed the request, so only send it again when that is safe
+        if (
+          baseUrl &&
+          this.urlPool.recordFailure(baseUrl, error) &&
+          this.urlPool.size > 1 &&
+          (resendable || isConnectionFailure(error))
+        ) {
+          failedUrls.add(baseUrl);
+          if (this.urlPool.hasAlternative(failedUrls)) {
+            continue;
           }
-          throw new RateLimitError(
-            'Rate limit exceeded',
-            retryAfter ? parseInt(retryAfter) : undefined
-          );
         }
-        throw new DataApiError(
-          `API request failed: ${response.status} ${response.statusText}`,
-          response.status
+
+        const delay = this.retryConfig
+          ? getRetryDelay(this.retryConfig, error, attempt++, idempotent)
+          : null;
+        if (delay === null) {
+          throw error;
+        }
+        failedKeys.clear();
+        failedUrls.clear();
+        await cancellation.race(sleep(delay, cancellation.signal));
+      }
+    }
+  }
+
+  /**
+   * Updates the usage snapshot from a response and emits the usage events
+   * @param status HTTP status of the response
+   * @param headers Response headers
+   * @param apiKey The key the request was sent with, undefined when going through a proxy
+   */
+  private recordUsage(status: number, headers: Record<string, string>, apiKey?: PooledApiKey): void {
+    apiKey?.usage.recordResponse(status, headers);
+    const thresholds = this.usageTracker.recordResponse(status, headers);
+    if (!thresholds) {
+      return;
+    }
+
+    this.emit('usage', this.usageTracker.current);
+    for (const event of thresholds) {
+      if (this.logUsageWarnings) {
+        console.warn(
+          `Solana Tracker API usage: ${event.remaining} of ${event.limit} requests left ` +
+            `(below ${event.threshold * 100}%)${
+              event.resetAt ? `, resets at ${new Date(event.resetAt).toISOString()}` : ''
+            }`
         );
       }
+      this.emit('usage-threshold', event);
+    }
+  }
 
-      return response.json() as Promise<T>;
+  /**
+   * Performs a single HTTP request against the API
+   * @param context The request context
+   * @param stats Counters of the call, receives the response size
+   * @param apiKey The key to send the request with, undefined when going through a proxy
+   * @param baseUrl The base URL to send the request to
+   * @param signal Signal that aborts the underlying HTTP request
+   * @param options Additional fetch options
+   * @returns The parsed response body
+   */
+  private async performRequest(
+    context: RequestContext,
+    stats: CallStats,
+    apiKey: PooledApiKey | undefined,
+    baseUrl: string,
+    signal?: AbortSignal,
+    options?: RequestOptions
+  ): Promise<unknown> {
+    const details = { endpoint: context.endpoint, method: context.method };
+
+    let response: FetchResponseLike;
+    try {
+      response = await this.fetchImpl(`${baseUrl}${context.endpoint}`, {
+        method: context.method,
+        body: context.body,
+        headers: {
+          ...context.headers,
+          ...(apiKey && { 'x-api-key': apiKey.key }),
+        },
+        signal,
+        agent: this.agent,
+      });
     } catch (error) {
       if (error instanceof DataApiError) {
         throw error;
       }
-      throw new DataApiError('An unexpected error occurred');
+      throw new NetworkError(
+        `Request to ${context.endpoint} failed: ${error instanceof Error ? error.message : error}`,
+        { ...details, cause: error }
+      );
+    }
+
+    context.response = { status: response.status, headers: response.headers };
+
+    const headers = headersToObject(response.headers);
+    this.recordUsage(response.status, headers, apiKey);
+    const responseDetails = {
+      ...details,
+      headers,
+      requestId: headers['x-request-id'] || headers['cf-ray'],
+    };
+
+    let text: string;
+    try {
+      text = await response.text();
+    } catch (error) {
+      throw new NetworkError(
+        `Failed to read response from ${context.endpoint}: ${error instanceof Error ? error.message : error}`,
+        { ...responseDetails, cause: error }
+      );
+    }
+    stats.bytes = byteLength(text);
+
+    if (!response.ok) {
+      let body: unknown = text;
+      try {
+        body = text ? JSON.parse(text) : undefined;
+      } catch {
+        // Keep the raw text when the error body is not JSON
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      if (response.status === 429 && options?.disableLogs) {
+        console.warn(`Rate limit exceeded for ${context.endpoint}. Retry after: ${retryAfter ?? '1'} seconds`);
+      }
+      throw createHttpError(response.status, response.statusText, retryAfter, {
+        ...responseDetails,
+        body,
+      });
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new ResponseParseError(
+        `Invalid JSON in response from ${context.endpoint}`,
+        response.status,
+        { ...responseDetails, body: text, cause: error }
+      );
     }
   }
 
@@ -135,10 +808,8 @@ export class Client {
    * @throws ValidationError if the address is invalid
    */
   private validatePublicKey(address: string, paramName: string) {
-    // Basic validation - a more robust implementation would use the PublicKey class from @solana/web3.js
-    if (!address || !/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address)) {
-      throw new ValidationError(`Invalid ${paramName}: ${address}`);
-    }
+    // Decodes the base58 string and checks for 32 bytes, which a regex alone cannot
+    assertPublicKey(address, paramName);
   }
 
   // ======== TOKEN ENDPOINTS ========
@@ -146,101 +817,122 @@ export class Client {
   /**
    * Get comprehensive information about a specific token
    * @param tokenAddress The token's mint address
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Detailed token information
    */
-  async getTokenInfo(tokenAddress: string): Promise<TokenDetailResponse> {
+  async getTokenInfo(tokenAddress: MintAddressLike, options?: CallOptions): Promise<TokenDetailResponse> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
-    return this.request<TokenDetailResponse>(`/tokens/${tokenAddress}`);
+    return this.request<TokenDetailResponse>(`/tokens/${tokenAddress}`, options);
   }
 
   /**
    * Get token information by searching with a pool address
    * @param poolAddress The pool address
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Detailed token information
    */
-  async getTokenByPool(poolAddress: string): Promise<TokenDetailResponse> {
+  async getTokenByPool(poolAddress: PoolAddressLike, options?: CallOptions): Promise<TokenDetailResponse> {
     this.validatePublicKey(poolAddress, 'poolAddress');
-    return this.request<TokenDetailResponse>(`/tokens/by-pool/${poolAddress}`);
+    return this.request<TokenDetailResponse>(`/tokens/by-pool/${poolAddress}`, options);
   }
 
   /**
    * Get token holders information
    * @param tokenAddress The token's mint address
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Information about token holders
    */
-  async getTokenHolders(tokenAddress: string): Promise<TokenHoldersResponse> {
+  async getTokenHolders(tokenAddress: MintAddressLike, options?: CallOptions): Promise<TokenHoldersResponse> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
-    return this.request<TokenHoldersResponse>(`/tokens/${tokenAddress}/holders`);
+    return this.request<TokenHoldersResponse>(`/tokens/${tokenAddress}/holders`, options);
   }
 
   /**
    * Get top 20 token holders
    * @param tokenAddress The token's mint address
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Top holders information
    */
-  async getTopHolders(tokenAddress: string): Promise<TopHolder[]> {
+  async getTopHolders(tokenAddress: MintAddressLike, options?: CallOptions): Promise<TopHolder[]> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
-    return this.request<TopHolder[]>(`/tokens/${tokenAddress}/holders/top`);
+    return this.request<TopHolder[]>(`/tokens/${tokenAddress}/holders/top`, options);
   }
 
   /**
    * Get the all-time high price for a token
    * @param tokenAddress The token's mint address
+   * @param options Per-call options such as an abort signal or timeout
    * @returns All-time high price data
    */
-  async getAthPrice(tokenAddress: string): Promise<AthPrice> {
+  async getAthPrice(tokenAddress: MintAddressLike, options?: CallOptions): Promise<AthPrice> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
-    return this.request<AthPrice>(`/tokens/${tokenAddress}/ath`);
+    return this.request<AthPrice>(`/tokens/${tokenAddress}/ath`, options);
   }
 
   /**
    * Get tokens created by a specific wallet
    * @param wallet The deployer wallet address
+   * @param options Per-call options such as an abort signal or timeout
    * @returns List of tokens created by the deployer
    */
-  async getTokensByDeployer(wallet: string): Promise<DeployerTokensResponse> {
+  async getTokensByDeployer(wallet: WalletAddressLike, options?: CallOptions): Promise<DeployerTokensResponse> {
     this.validatePublicKey(wallet, 'wallet');
-    return this.request<DeployerTokensResponse>(`/deployer/${wallet}`);
+    return this.request<DeployerTokensResponse>(`/deployer/${wallet}`, options);
   }
 
   /**
    * Search for tokens with flexible filtering options
    * @param params Search parameters and filters
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Search results
    */
-  async searchTokens(params: SearchParams): Promise<SearchResponse> {
+  async searchTokens(params: SearchParams, options?: CallOptions): Promise<SearchResponse> {
+    validateSearchParams(params);
     const queryParams = new URLSearchParams();
     for (const [key, value] of Object.entries(params)) {
       if (value !== undefined) {
         queryParams.append(key, value.toString());
       }
     }
-    return this.request<SearchResponse>(`/search?${queryParams}`);
+    return this.request<SearchResponse>(`/search?${queryParams}`, options);
+  }
+
+  /**
+   * Start a typed search query, e.g. `client.search('bonk').minLiquidity(1e4).sortBy('volume_24h').execute()`
+   * @param query Optional search text
+   * @returns A search builder, run it with `execute()` or iterate over every page
+   */
+  search(query?: string): SearchBuilder {
+    const builder = new SearchBuilder(this);
+    return query === undefined ? builder : builder.query(query);
   }
 
   /**
    * Get the latest tokens
    * @param page Page number (1-10)
+   * @param options Per-call options such as an abort signal or timeout
    * @returns List of latest tokens
    */
-  async getLatestTokens(page: number = 1): Promise<TokenDetailResponse[]> {
+  async getLatestTokens(page: number = 1, options?: CallOptions): Promise<TokenDetailResponse[]> {
     if (page < 1 || page > 10) {
       throw new ValidationError('Page must be between 1 and 10');
     }
-    return this.request<TokenDetailResponse[]>(`/tokens/latest?page=${page}`);
+    return this.request<TokenDetailResponse[]>(`/tokens/latest?page=${page}`, options);
   }
 
   /**
    * Get information about multiple tokens
    * @param tokenAddresses Array of token addresses
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Information about multiple tokens
    */
-  async getMultipleTokens(tokenAddresses: string[]): Promise<TokenDetailResponse[]> {
+  async getMultipleTokens(tokenAddresses: MintAddressLike[], options?: CallOptions): Promise<TokenDetailResponse[]> {
     if (tokenAddresses.length > 20) {
       throw new ValidationError('Maximum of 20 tokens per request');
     }
     tokenAddresses.forEach((addr) => this.validatePublicKey(addr, 'tokenAddress'));
     return this.request<TokenDetailResponse[]>('/tokens/multi', {
+      ...options,
       method: 'POST',
       body: JSON.stringify({ tokens: tokenAddresses }),
     });
@@ -249,45 +941,47 @@ export class Client {
   /**
    * Get trending tokens
    * @param timeframe Optional timeframe for trending calculation
+   * @param options Per-call options such as an abort signal or timeout
    * @returns List of trending tokens
    */
-  async getTrendingTokens(timeframe?: string): Promise<TokenDetailResponse[]> {
-    const validTimeframes = ['5m', '15m', '30m', '1h', '2h', '3h', '4h', '5h', '6h', '12h', '24h'];
-    if (timeframe && !validTimeframes.includes(timeframe)) {
-      throw new ValidationError(`Invalid timeframe. Must be one of: ${validTimeframes.join(', ')}`);
+  async getTrendingTokens(timeframe?: TrendingTimeframe, options?: CallOptions): Promise<TokenDetailResponse[]> {
+    if (timeframe) {
+      assertTrendingTimeframe(timeframe);
     }
     const endpoint = timeframe ? `/tokens/trending/${timeframe}` : '/tokens/trending';
-    return this.request<TokenDetailResponse[]>(endpoint);
+    return this.request<TokenDetailResponse[]>(endpoint, options);
   }
 
   /**
    * Get tokens sorted by volume
    * @param timeframe Optional timeframe for volume calculation
+   * @param options Per-call options such as an abort signal or timeout
    * @returns List of tokens sorted by volume
    */
-  async getTokensByVolume(timeframe?: string): Promise<TokenDetailResponse[]> {
-    const validTimeframes = ['5m', '15m', '30m', '1h', '6h', '12h', '24h'];
-    if (timeframe && !validTimeframes.includes(timeframe)) {
-      throw new ValidationError(`Invalid timeframe. Must be one of: ${validTimeframes.join(', ')}`);
+  async getTokensByVolume(timeframe?: VolumeTimeframe, options?: CallOptions): Promise<TokenDetailResponse[]> {
+    if (timeframe) {
+      assertVolumeTimeframe(timeframe);
     }
     const endpoint = timeframe ? `/tokens/volume/${timeframe}` : '/tokens/volume';
-    return this.request<TokenDetailResponse[]>(endpoint);
+    return this.request<TokenDetailResponse[]>(endpoint, options);
   }
 
   /**
    * Get an overview of latest, graduating, and graduated tokens
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Token overview
    */
-  async getTokenOverview(): Promise<TokenOverview> {
-    return this.request<TokenOverview>('/tokens/multi/all');
+  async getTokenOverview(options?: CallOptions): Promise<TokenOverview> {
+    return this.request<TokenOverview>('/tokens/multi/all', options);
   }
 
   /**
    * Get graduated tokens
+   * @param options Per-call options such as an abort signal or timeout
    * @returns List of graduated tokens
    */
-  async getGraduatedTokens(): Promise<TokenDetailResponse[]> {
-    return this.request<TokenDetailResponse[]>('/tokens/multi/graduated');
+  async getGraduatedTokens(options?: CallOptions): Promise<TokenDetailResponse[]> {
+    return this.request<TokenDetailResponse[]>('/tokens/multi/graduated', options);
   }
 
   // ======== PRICE ENDPOINTS ========
@@ -296,33 +990,36 @@ export class Client {
    * Get price information for a token
    * @param tokenAddress The token's mint address
    * @param priceChanges Include price change percentages
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Price data
    */
-  async getPrice(tokenAddress: string, priceChanges?: boolean): Promise<PriceData> {
+  async getPrice(tokenAddress: MintAddressLike, priceChanges?: boolean, options?: CallOptions): Promise<PriceData> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
     const query = priceChanges ? '&priceChanges=true' : '';
-    return this.request<PriceData>(`/price?token=${tokenAddress}${query}`);
+    return this.request<PriceData>(`/price?token=${tokenAddress}${query}`, options);
   }
 
   /**
    * Get historic price information for a token
    * @param tokenAddress The token's mint address
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Historic price data
    */
-  async getPriceHistory(tokenAddress: string): Promise<PriceHistoryData> {
+  async getPriceHistory(tokenAddress: MintAddressLike, options?: CallOptions): Promise<PriceHistoryData> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
-    return this.request<PriceHistoryData>(`/price/history?token=${tokenAddress}`);
+    return this.request<PriceHistoryData>(`/price/history?token=${tokenAddress}`, options);
   }
 
   /**
    * Get price at a specific timestamp
    * @param tokenAddress The token's mint address
    * @param timestamp Unix timestamp
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Price at the specified timestamp
    */
-  async getPriceAtTimestamp(tokenAddress: string, timestamp: number): Promise<PriceTimestampData> {
+  async getPriceAtTimestamp(tokenAddress: MintAddressLike, timestamp: number, options?: CallOptions): Promise<PriceTimestampData> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
-    return this.request<PriceTimestampData>(`/price/history/timestamp?token=${tokenAddress}&timestamp=${timestamp}`);
+    return this.request<PriceTimestampData>(`/price/history/timestamp?token=${tokenAddress}&timestamp=${timestamp}`, options);
   }
 
   /**
@@ -330,22 +1027,25 @@ export class Client {
    * @param tokenAddress The token's mint address
    * @param timeFrom Start time (unix timestamp)
    * @param timeTo End time (unix timestamp)
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Price range data
    */
-  async getPriceRange(tokenAddress: string, timeFrom: number, timeTo: number): Promise<PriceRangeData> {
+  async getPriceRange(tokenAddress: MintAddressLike, timeFrom: number, timeTo: number, options?: CallOptions): Promise<PriceRangeData> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
-    return this.request<PriceRangeData>(`/price/history/range?token=${tokenAddress}&time_from=${timeFrom}&time_to=${timeTo}`);
+    return this.request<PriceRangeData>(`/price/history/range?token=${tokenAddress}&time_from=${timeFrom}&time_to=${timeTo}`, options);
   }
 
   /**
    * Get price information for a token (POST method)
    * @param tokenAddress The token's mint address
    * @param priceChanges Include price change percentages
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Price data
    */
-  async postPrice(tokenAddress: string, priceChanges?: boolean): Promise<PriceData> {
+  async postPrice(tokenAddress: MintAddressLike, priceChanges?: boolean, options?: CallOptions): Promise<PriceData> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
     return this.request<PriceData>('/price', {
+      ...options,
       method: 'POST',
       body: JSON.stringify({
         token: tokenAddress,
@@ -358,31 +1058,34 @@ export class Client {
    * Get price information for multiple tokens
    * @param tokenAddresses Array of token addresses
    * @param priceChanges Include price change percentages
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Price data for multiple tokens
    */
-  async getMultiplePrices(tokenAddresses: string[], priceChanges?: boolean): Promise<MultiPriceResponse> {
+  async getMultiplePrices(tokenAddresses: MintAddressLike[], priceChanges?: boolean, options?: CallOptions): Promise<MultiPriceResponse> {
     if (tokenAddresses.length > 100) {
       throw new ValidationError('Maximum of 100 tokens per request');
     }
     tokenAddresses.forEach((addr) => this.validatePublicKey(addr, 'tokenAddress'));
 
     const query = priceChanges ? '&priceChanges=true' : '';
-    return this.request<MultiPriceResponse>(`/price/multi?tokens=${tokenAddresses.join(',')}${query}`);
+    return this.request<MultiPriceResponse>(`/price/multi?tokens=${tokenAddresses.join(',')}${query}`, options);
   }
 
   /**
    * Get price information for multiple tokens (POST method)
    * @param tokenAddresses Array of token addresses
    * @param priceChanges Include price change percentages
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Price data for multiple tokens
    */
-  async postMultiplePrices(tokenAddresses: string[], priceChanges?: boolean): Promise<MultiPriceResponse> {
+  async postMultiplePrices(tokenAddresses: MintAddressLike[], priceChanges?: boolean, options?: CallOptions): Promise<MultiPriceResponse> {
     if (tokenAddresses.length > 100) {
       throw new ValidationError('Maximum of 100 tokens per request');
     }
     tokenAddresses.forEach((addr) => this.validatePublicKey(addr, 'tokenAddress'));
 
     return this.request<MultiPriceResponse>('/price/multi', {
+      ...options,
       method: 'POST',
       body: JSON.stringify({
         tokens: tokenAddresses,
@@ -391,39 +1094,91 @@ export class Client {
     });
   }
 
+  /**
+   * Get price information for any number of tokens, split into requests of up to 100 tokens.
+   * Failed chunks are reported in `failures` instead of failing the whole call.
+   * @param tokenAddresses Array of token addresses
+   * @param priceChanges Include price change percentages
+   * @param options Chunk size, concurrency and per-call options
+   * @returns Merged price data and failed chunks
+   */
+  async getMultiplePricesChunked(
+    tokenAddresses: MintAddressLike[],
+    priceChanges?: boolean,
+    options?: ChunkedCallOptions
+  ): Promise<ChunkedResult<MultiPriceResponse>> {
+    const chunkSize = resolveChunkSize(options?.chunkSize, 100);
+    const { results, failures } = await runChunks(
+      chunk(Array.from(new Set(tokenAddresses)), chunkSize),
+      options?.concurrency || 4,
+      (addresses) => this.getMultiplePrices(addresses, priceChanges, options)
+    );
+    return { data: Object.assign({}, ...results), failures };
+  }
+
+  /**
+   * Get information about any number of tokens, split into requests of up to 20 tokens.
+   * Failed chunks are reported in `failures` instead of failing the whole call.
+   * @param tokenAddresses Array of token addresses
+   * @param options Chunk size, concurrency and per-call options
+   * @returns Merged token information and failed chunks
+   */
+  async getMultipleTokensChunked(
+    tokenAddresses: MintAddressLike[],
+    options?: ChunkedCallOptions
+  ): Promise<ChunkedResult<TokenDetailResponse[]>> {
+    const chunkSize = resolveChunkSize(options?.chunkSize, 20);
+    const { results, failures } = await runChunks(
+      chunk(Array.from(new Set(tokenAddresses)), chunkSize),
+      options?.concurrency || 4,
+      (addresses) => this.getMultipleTokens(addresses, options)
+    );
+    return { data: ([] as TokenDetailResponse[]).concat(...results), failures };
+  }
+
   // ======== WALLET ENDPOINTS ========
 
   /**
    * Get basic wallet information
    * @param owner Wallet address
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Basic wallet data
    */
-  async getWalletBasic(owner: string): Promise<WalletBasicResponse> {
+  async getWalletBasic(owner: WalletAddressLike, options?: CallOptions): Promise<WalletBasicResponse> {
     this.validatePublicKey(owner, 'owner');
-    return this.request<WalletBasicResponse>(`/wallet/${owner}/basic`);
+    return this.request<WalletBasicResponse>(`/wallet/${owner}/basic`, options);
   }
 
   /**
    * Get all tokens in a wallet
    * @param owner Wallet address
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Detailed wallet data
    */
-  async getWallet(owner: string): Promise<WalletResponse> {
+  async getWallet(owner: WalletAddressLike, options?: CallOptions): Promise<WalletResponse> {
     this.validatePublicKey(owner, 'owner');
-    return this.request<WalletResponse>(`/wallet/${owner}`);
+    return this.request<WalletResponse>(`/wallet/${owner}`, options);
   }
 
   /**
    * Get wallet tokens with pagination
    * @param owner Wallet address
    * @param page Page number
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Paginated wallet data
    */
-  async getWalletPage(owner: string, page: number): Promise<WalletResponse> {
+  async getWalletPage(owner: WalletAddressLike, page: number, options?: CallOptions): Promise<WalletResponse> {
     this.validatePublicKey(owner, 'owner');
-    return this.request<WalletResponse>(`/wallet/${owner}/page/${page}`);
+    return this.request<WalletResponse>(`/wallet/${owner}/page/${page}`, options);
   }
 
+  /**
+   * Get wallet trades
+   * @param owner Wallet address
+   * @param options Pagination cursor, trade filters and per-call options
+   * @returns Wallet trades data
+   */
+  getWalletTrades(owner: WalletAddressLike, options?: TradeQueryOptions & CallOptions): Promise<TradesResponse>;
   /**
    * Get wallet trades
    * @param owner Wallet address
@@ -431,29 +1186,39 @@ export class Client {
    * @param showMeta Include token metadata
    * @param parseJupiter Parse Jupiter swaps
    * @param hideArb Hide arbitrage transactions
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Wallet trades data
    */
-  async getWalletTrades(
-    owner: string,
+  getWalletTrades(
+    owner: WalletAddressLike,
     cursor?: number,
     showMeta?: boolean,
     parseJupiter?: boolean,
-    hideArb?: boolean
+    hideArb?: boolean,
+    options?: CallOptions
+  ): Promise<TradesResponse>;
+  async getWalletTrades(
+    owner: WalletAddressLike,
+    cursorOrOptions?: number | (TradeQueryOptions & CallOptions),
+    showMeta?: boolean,
+    parseJupiter?: boolean,
+    hideArb?: boolean,
+    options?: CallOptions
   ): Promise<TradesResponse> {
     this.validatePublicKey(owner, 'owner');
-
-    const params = new URLSearchParams();
-    if (cursor) params.append('cursor', cursor.toString());
-    if (showMeta) params.append('showMeta', 'true');
-    if (parseJupiter) params.append('parseJupiter', 'true');
-    if (hideArb) params.append('hideArb', 'true');
-
-    const query = params.toString() ? `?${params.toString()}` : '';
-    return this.request<TradesResponse>(`/wallet/${owner}/trades${query}`);
+    const { query, callOptions } = this.tradeQuery(cursorOrOptions, showMeta, parseJupiter, hideArb, options);
+    return this.request<TradesResponse>(`/wallet/${owner}/trades${query}`, callOptions);
   }
 
   // ======== TRADE ENDPOINTS ========
 
+  /**
+   * Get trades for a token
+   * @param tokenAddress Token address
+   * @param options Pagination cursor, trade filters and per-call options
+   * @returns Token trades data
+   */
+  getTokenTrades(tokenAddress: MintAddressLike, options?: TradeQueryOptions & CallOptions): Promise<TradesResponse>;
   /**
    * Get trades for a token
    * @param tokenAddress Token address
@@ -461,27 +1226,42 @@ export class Client {
    * @param showMeta Include token metadata
    * @param parseJupiter Parse Jupiter swaps
    * @param hideArb Hide arbitrage transactions
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Token trades data
    */
-  async getTokenTrades(
-    tokenAddress: string,
+  getTokenTrades(
+    tokenAddress: MintAddressLike,
     cursor?: number,
     showMeta?: boolean,
     parseJupiter?: boolean,
-    hideArb?: boolean
+    hideArb?: boolean,
+    options?: CallOptions
+  ): Promise<TradesResponse>;
+  async getTokenTrades(
+    tokenAddress: MintAddressLike,
+    cursorOrOptions?: number | (TradeQueryOptions & CallOptions),
+    showMeta?: boolean,
+    parseJupiter?: boolean,
+    hideArb?: boolean,
+    options?: CallOptions
   ): Promise<TradesResponse> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
-
-    const params = new URLSearchParams();
-    if (cursor) params.append('cursor', cursor.toString());
-    if (showMeta) params.append('showMeta', 'true');
-    if (parseJupiter) params.append('parseJupiter', 'true');
-    if (hideArb) params.append('hideArb', 'true');
-
-    const query = params.toString() ? `?${params.toString()}` : '';
-    return this.request<TradesResponse>(`/trades/${tokenAddress}${query}`);
+    const { query, callOptions } = this.tradeQuery(cursorOrOptions, showMeta, parseJupiter, hideArb, options);
+    return this.request<TradesResponse>(`/trades/${tokenAddress}${query}`, callOptions);
   }
 
+  /**
+   * Get trades for a specific token and pool
+   * @param tokenAddress Token address
+   * @param poolAddress Pool address
+   * @param options Pagination cursor, trade filters and per-call options
+   * @returns Pool-specific token trades data
+   */
+  getPoolTrades(
+    tokenAddress: MintAddressLike,
+    poolAddress: PoolAddressLike,
+    options?: TradeQueryOptions & CallOptions
+  ): Promise<TradesResponse>;
   /**
    * Get trades for a specific token and pool
    * @param tokenAddress Token address
@@ -490,29 +1270,47 @@ export class Client {
    * @param showMeta Include token metadata
    * @param parseJupiter Parse Jupiter swaps
    * @param hideArb Hide arbitrage transactions
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Pool-specific token trades data
    */
-  async getPoolTrades(
-    tokenAddress: string,
-    poolAddress: string,
+  getPoolTrades(
+    tokenAddress: MintAddressLike,
+    poolAddress: PoolAddressLike,
     cursor?: number,
     showMeta?: boolean,
     parseJupiter?: boolean,
-    hideArb?: boolean
+    hideArb?: boolean,
+    options?: CallOptions
+  ): Promise<TradesResponse>;
+  async getPoolTrades(
+    tokenAddress: MintAddressLike,
+    poolAddress: PoolAddressLike,
+    cursorOrOptions?: number | (TradeQueryOptions & CallOptions),
+    showMeta?: boolean,
+    parseJupiter?: boolean,
+    hideArb?: boolean,
+    options?: CallOptions
   ): Promise<TradesResponse> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
     this.validatePublicKey(poolAddress, 'poolAddress');
-
-    const params = new URLSearchParams();
-    if (cursor) params.append('cursor', cursor.toString());
-    if (showMeta) params.append('showMeta', 'true');
-    if (parseJupiter) params.append('parseJupiter', 'true');
-    if (hideArb) params.append('hideArb', 'true');
-
-    const query = params.toString() ? `?${params.toString()}` : '';
-    return this.request<TradesResponse>(`/trades/${tokenAddress}/${poolAddress}${query}`);
+    const { query, callOptions } = this.tradeQuery(cursorOrOptions, showMeta, parseJupiter, hideArb, options);
+    return this.request<TradesResponse>(`/trades/${tokenAddress}/${poolAddress}${query}`, callOptions);
   }
 
+  /**
+   * Get trades for a specific token, pool, and wallet
+   * @param tokenAddress Token address
+   * @param poolAddress Pool address
+   * @param owner Wallet address
+   * @param options Pagination cursor, trade filters and per-call options
+   * @returns User-specific pool trades data
+   */
+  getUserPoolTrades(
+    tokenAddress: MintAddressLike,
+    poolAddress: PoolAddressLike,
+    owner: WalletAddressLike,
+    options?: TradeQueryOptions & CallOptions
+  ): Promise<TradesResponse>;
   /**
    * Get trades for a specific token, pool, and wallet
    * @param tokenAddress Token address
@@ -522,31 +1320,48 @@ export class Client {
    * @param showMeta Include token metadata
    * @param parseJupiter Parse Jupiter swaps
    * @param hideArb Hide arbitrage transactions
+   * @param options Per-call options such as an abort signal or timeout
    * @returns User-specific pool trades data
    */
-  async getUserPoolTrades(
-    tokenAddress: string,
-    poolAddress: string,
-    owner: string,
+  getUserPoolTrades(
+    tokenAddress: MintAddressLike,
+    poolAddress: PoolAddressLike,
+    owner: WalletAddressLike,
     cursor?: number,
     showMeta?: boolean,
     parseJupiter?: boolean,
-    hideArb?: boolean
+    hideArb?: boolean,
+    options?: CallOptions
+  ): Promise<TradesResponse>;
+  async getUserPoolTrades(
+    tokenAddress: MintAddressLike,
+    poolAddress: PoolAddressLike,
+    owner: WalletAddressLike,
+    cursorOrOptions?: number | (TradeQueryOptions & CallOptions),
+    showMeta?: boolean,
+    parseJupiter?: boolean,
+    hideArb?: boolean,
+    options?: CallOptions
   ): Promise<TradesResponse> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
     this.validatePublicKey(poolAddress, 'poolAddress');
     this.validatePublicKey(owner, 'owner');
-
-    const params = new URLSearchParams();
-    if (cursor) params.append('cursor', cursor.toString());
-    if (showMeta) params.append('showMeta', 'true');
-    if (parseJupiter) params.append('parseJupiter', 'true');
-    if (hideArb) params.append('hideArb', 'true');
-
-    const query = params.toString() ? `?${params.toString()}` : '';
-    return this.request<TradesResponse>(`/trades/${tokenAddress}/${poolAddress}/${owner}${query}`);
+    const { query, callOptions } = this.tradeQuery(cursorOrOptions, showMeta, parseJupiter, hideArb, options);
+    return this.request<TradesResponse>(`/trades/${tokenAddress}/${poolAddress}/${owner}${query}`, callOptions);
   }
 
+  /**
+   * Get trades for a specific token and wallet
+   * @param tokenAddress Token address
+   * @param owner Wallet address
+   * @param options Pagination cursor, trade filters and per-call options
+   * @returns User-specific token trades data
+   */
+  getUserTokenTrades(
+    tokenAddress: MintAddressLike,
+    owner: WalletAddressLike,
+    options?: TradeQueryOptions & CallOptions
+  ): Promise<TradesResponse>;
   /**
    * Get trades for a specific token and wallet
    * @param tokenAddress Token address
@@ -555,27 +1370,57 @@ export class Client {
    * @param showMeta Include token metadata
    * @param parseJupiter Parse Jupiter swaps
    * @param hideArb Hide arbitrage transactions
+   * @param options Per-call options such as an abort signal or timeout
    * @returns User-specific token trades data
    */
-  async getUserTokenTrades(
-    tokenAddress: string,
-    owner: string,
+  getUserTokenTrades(
+    tokenAddress: MintAddressLike,
+    owner: WalletAddressLike,
     cursor?: number,
     showMeta?: boolean,
     parseJupiter?: boolean,
-    hideArb?: boolean
+    hideArb?: boolean,
+    options?: CallOptions
+  ): Promise<TradesResponse>;
+  async getUserTokenTrades(
+    tokenAddress: MintAddressLike,
+    owner: WalletAddressLike,
+    cursorOrOptions?: number | (TradeQueryOptions & CallOptions),
+    showMeta?: boolean,
+    parseJupiter?: boolean,
+    hideArb?: boolean,
+    options?: CallOptions
   ): Promise<TradesResponse> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
     this.validatePublicKey(owner, 'owner');
+    const { query, callOptions } = this.tradeQuery(cursorOrOptions, showMeta, parseJupiter, hideArb, options);
+    return this.request<TradesResponse>(`/trades/${tokenAddress}/by-wallet/${owner}${query}`, callOptions);
+  }
 
-    const params = new URLSearchParams();
-    if (cursor) params.append('cursor', cursor.toString());
-    if (showMeta) params.append('showMeta', 'true');
-    if (parseJupiter) params.append('parseJupiter', 'true');
-    if (hideArb) params.append('hideArb', 'true');
+  /**
+   * Builds the query string shared by the trade endpoints from either call style
+   */
+  private tradeQuery(
+    cursorOrOptions: number | (TradeQueryOptions & CallOptions) | undefined,
+    showMeta?: boolean,
+    parseJupiter?: boolean,
+    hideArb?: boolean,
+    options?: CallOptions
+  ): { query: string; callOptions?: CallOptions } {
+    const trade: TradeQueryOptions = isQueryOptions(cursorOrOptions)
+      ? cursorOrOptions
+      : { cursor: cursorOrOptions, showMeta, parseJupiter, hideArb };
 
-    const query = params.toString() ? `?${params.toString()}` : '';
-    return this.request<TradesResponse>(`/trades/${tokenAddress}/by-wallet/${owner}${query}`);
+    const params = new URLSearchParams();
+    if (trade.cursor) params.append('cursor', trade.cursor.toString());
+    if (trade.showMeta) params.append('showMeta', 'true');
+    if (trade.parseJupiter) params.append('parseJupiter', 'true');
+    if (trade.hideArb) params.append('hideArb', 'true');
+
+    return {
+      query: params.toString() ? `?${params.toString()}` : '',
+      callOptions: isQueryOptions(cursorOrOptions) ? cursorOrOptions : options,
+    };
   }
 
   // ======== CHART DATA ENDPOINTS ========
@@ -583,174 +1428,290 @@ export class Client {
   /**
    * Get OHLCV data for a token
    * @param tokenAddress Token address
-   * @param type Time interval (e.g., "1s", "1m", "1h", "1d")
+   * @param options Interval, time range, chart options and per-call options
+   * @returns OHLCV chart data
+   */
+  getChartData(tokenAddress: MintAddressLike, options?: ChartQueryOptions & CallOptions): Promise<ChartResponse>;
+  /**
+   * Get OHLCV data for a token
+   * @param tokenAddress Token address
+   * @param type Candle interval (e.g., "1s", "1m", "1h", "1d")
    * @param timeFrom Start time (Unix timestamp in seconds)
    * @param timeTo End time (Unix timestamp in seconds)
    * @param marketCap Return chart for market cap instead of pricing
    * @param removeOutliers Disable outlier removal if set to false (default: true)
+   * @param options Per-call options such as an abort signal or timeout
    * @returns OHLCV chart data
    */
+  getChartData(
+    tokenAddress: MintAddressLike,
+    type?: ChartInterval,
+    timeFrom?: number,
+    timeTo?: number,
+    marketCap?: boolean,
+    removeOutliers?: boolean,
+    options?: CallOptions
+  ): Promise<ChartResponse>;
   async getChartData(
-    tokenAddress: string,
-    type?: string,
+    tokenAddress: MintAddressLike,
+    typeOrOptions?: ChartInterval | (ChartQueryOptions & CallOptions),
     timeFrom?: number,
     timeTo?: number,
     marketCap?: boolean,
-    removeOutliers?: boolean
+    removeOutliers?: boolean,
+    options?: CallOptions
   ): Promise<ChartResponse> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
-
-    const params = new URLSearchParams();
-    if (type) params.append('type', type);
-    if (timeFrom) params.append('time_from', timeFrom.toString());
-    if (timeTo) params.append('time_to', timeTo.toString());
-    if (marketCap) params.append('marketCap', 'true');
-    if (removeOutliers === false) params.append('removeOutliers', 'false');
-
-    const query = params.toString() ? `?${params.toString()}` : '';
-    return this.request<ChartResponse>(`/chart/${tokenAddress}${query}`);
+    const { query, callOptions } = this.chartQuery(typeOrOptions, timeFrom, timeTo, marketCap, removeOutliers, options);
+    return this.request<ChartResponse>(`/chart/${tokenAddress}${query}`, callOptions);
   }
 
   /**
    * Get OHLCV data for a specific token and pool
    * @param tokenAddress Token address
    * @param poolAddress Pool address
-   * @param type Time interval (e.g., "1s", "1m", "1h", "1d")
+   * @param options Interval, time range, chart options and per-call options
+   * @returns OHLCV chart data for a specific pool
+   */
+  getPoolChartData(
+    tokenAddress: MintAddressLike,
+    poolAddress: PoolAddressLike,
+    options?: ChartQueryOptions & CallOptions
+  ): Promise<ChartResponse>;
+  /**
+   * Get OHLCV data for a specific token and pool
+   * @param tokenAddress Token address
+   * @param poolAddress Pool address
+   * @param type Candle interval (e.g., "1s", "1m", "1h", "1d")
    * @param timeFrom Start time (Unix timestamp in seconds)
    * @param timeTo End time (Unix timestamp in seconds)
    * @param marketCap Return chart for market cap instead of pricing
    * @param removeOutliers Disable outlier removal if set to false (default: true)
+   * @param options Per-call options such as an abort signal or timeout
    * @returns OHLCV chart data for a specific pool
    */
+  getPoolChartData(
+    tokenAddress: MintAddressLike,
+    poolAddress: PoolAddressLike,
+    type?: ChartInterval,
+    timeFrom?: number,
+    timeTo?: number,
+    marketCap?: boolean,
+    removeOutliers?: boolean,
+    options?: CallOptions
+  ): Promise<ChartResponse>;
   async getPoolChartData(
-    tokenAddress: string,
-    poolAddress: string,
-    type?: string,
+    tokenAddress: MintAddressLike,
+    poolAddress: PoolAddressLike,
+    typeOrOptions?: ChartInterval | (ChartQueryOptions & CallOptions),
     timeFrom?: number,
     timeTo?: number,
     marketCap?: boolean,
-    removeOutliers?: boolean
+    removeOutliers?: boolean,
+    options?: CallOptions
   ): Promise<ChartResponse> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
     this.validatePublicKey(poolAddress, 'poolAddress');
-
-    const params = new URLSearchParams();
-    if (type) params.append('type', type);
-    if (timeFrom) params.append('time_from', timeFrom.toString());
-    if (timeTo) params.append('time_to', timeTo.toString());
-    if (marketCap) params.append('marketCap', 'true');
-    if (removeOutliers === false) params.append('removeOutliers', 'false');
-
-    const query = params.toString() ? `?${params.toString()}` : '';
-    return this.request<ChartResponse>(`/chart/${tokenAddress}/${poolAddress}${query}`);
+    const { query, callOptions } = this.chartQuery(typeOrOptions, timeFrom, timeTo, marketCap, removeOutliers, options);
+    return this.request<ChartResponse>(`/chart/${tokenAddress}/${poolAddress}${query}`, callOptions);
   }
 
   /**
    * Get holder count chart data
    * @param tokenAddress Token address
-   * @param type Time interval (e.g., "1s", "1m", "1h", "1d")
+   * @param options Interval, time range and per-call options
+   * @returns Holder count chart data
+   */
+  getHoldersChart(
+    tokenAddress: MintAddressLike,
+    options?: HoldersChartQueryOptions & CallOptions
+  ): Promise<HoldersChartResponse>;
+  /**
+   * Get holder count chart data
+   * @param tokenAddress Token address
+   * @param type Candle interval (e.g., "1s", "1m", "1h", "1d")
    * @param timeFrom Start time (Unix timestamp in seconds)
    * @param timeTo End time (Unix timestamp in seconds)
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Holder count chart data
    */
+  getHoldersChart(
+    tokenAddress: MintAddressLike,
+    type?: ChartInterval,
+    timeFrom?: number,
+    timeTo?: number,
+    options?: CallOptions
+  ): Promise<HoldersChartResponse>;
   async getHoldersChart(
-    tokenAddress: string,
-    type?: string,
+    tokenAddress: MintAddressLike,
+    typeOrOptions?: ChartInterval | (HoldersChartQueryOptions & CallOptions),
     timeFrom?: number,
-    timeTo?: number
+    timeTo?: number,
+    options?: CallOptions
   ): Promise<HoldersChartResponse> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
+    const { query, callOptions } = this.chartQuery(typeOrOptions, timeFrom, timeTo, undefined, undefined, options);
+    return this.request<HoldersChartResponse>(`/holders/chart/${tokenAddress}${query}`, callOptions);
+  }
 
-    const params = new URLSearchParams();
-    if (type) params.append('type', type);
-    if (timeFrom) params.append('time_from', timeFrom.toString());
-    if (timeTo) params.append('time_to', timeTo.toString());
+  /**
+   * Builds the query string shared by the chart endpoints from either call style
+   */
+  private chartQuery(
+    typeOrOptions: ChartInterval | (ChartQueryOptions & CallOptions) | undefined,
+    timeFrom?: number,
+    timeTo?: number,
+    marketCap?: boolean,
+    removeOutliers?: boolean,
+    options?: CallOptions
+  ): { query: string; callOptions?: CallOptions } {
+    const chart: ChartQueryOptions = isQueryOptions(typeOrOptions)
+      ? typeOrOptions
+      : { type: typeOrOptions, timeFrom, timeTo, marketCap, removeOutliers };
+
+    if (chart.type) {
+      assertChartInterval(chart.type);
+    }
 
-    const query = params.toString() ? `?${params.toString()}` : '';
-    return this.request<HoldersChartResponse>(`/holders/chart/${tokenAddress}${query}`);
+    const params = new URLSearchParams();
+    if (chart.type) params.append('type', chart.type);
+    if (chart.timeFrom) params.append('time_from', chart.timeFrom.toString());
+    if (chart.timeTo) params.append('time_to', chart.timeTo.toString());
+    if (chart.marketCap) params.append('marketCap', 'true');
+    if (chart.removeOutliers === false) params.append('removeOutliers', 'false');
+
+    return {
+      query: params.toString() ? `?${params.toString()}` : '',
+      callOptions: isQueryOptions(typeOrOptions) ? typeOrOptions : options,
+    };
   }
 
   // ======== PNL DATA ENDPOINTS ========
 
+  /**
+   * Get PnL data for all positions of a wallet
+   * @param wallet Wallet address
+   * @param options PnL options and per-call options
+   * @returns Wallet PnL data
+   */
+  getWalletPnL(wallet: WalletAddressLike, options?: WalletPnLQueryOptions & CallOptions): Promise<PnLResponse>;
   /**
    * Get PnL data for all positions of a wallet
    * @param wallet Wallet address
    * @param showHistoricPnL Add PnL data for 1d, 7d and 30d intervals (BETA)
    * @param holdingCheck Additional check for current holding value
    * @param hideDetails Return only summary without data for each token
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Wallet PnL data
    */
-  async getWalletPnL(
-    wallet: string,
+  getWalletPnL(
+    wallet: WalletAddressLike,
     showHistoricPnL?: boolean,
     holdingCheck?: boolean,
-    hideDetails?: boolean
+    hideDetails?: boolean,
+    options?: CallOptions
+  ): Promise<PnLResponse>;
+  async getWalletPnL(
+    wallet: WalletAddressLike,
+    showHistoricPnLOrOptions?: boolean | (WalletPnLQueryOptions & CallOptions),
+    holdingCheck?: boolean,
+    hideDetails?: boolean,
+    options?: CallOptions
   ): Promise<PnLResponse> {
     this.validatePublicKey(wallet, 'wallet');
 
+    const pnl: WalletPnLQueryOptions = isQueryOptions(showHistoricPnLOrOptions)
+      ? showHistoricPnLOrOptions
+      : { showHistoricPnL: showHistoricPnLOrOptions, holdingCheck, hideDetails };
+    const callOptions = isQueryOptions(showHistoricPnLOrOptions) ? showHistoricPnLOrOptions : options;
+
     const params = new URLSearchParams();
-    if (showHistoricPnL) params.append('showHistoricPnL', 'true');
-    if (holdingCheck) params.append('holdingCheck', 'true');
-    if (hideDetails) params.append('hideDetails', 'true');
+    if (pnl.showHistoricPnL) params.append('showHistoricPnL', 'true');
+    if (pnl.holdingCheck) params.append('holdingCheck', 'true');
+    if (pnl.hideDetails) params.append('hideDetails', 'true');
 
     const query = params.toString() ? `?${params.toString()}` : '';
-    return this.request<PnLResponse>(`/pnl/${wallet}${query}`);
+    return this.request<PnLResponse>(`/pnl/${wallet}${query}`, callOptions);
   }
 
   /**
    * Get the first 100 buyers of a token with PnL data
    * @param tokenAddress Token address
+   * @param options Per-call options such as an abort signal or timeout
    * @returns First buyers data with PnL
    */
-  async getFirstBuyers(tokenAddress: string): Promise<FirstBuyerData[]> {
+  async getFirstBuyers(tokenAddress: MintAddressLike, options?: CallOptions): Promise<FirstBuyerData[]> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
-    return this.request<FirstBuyerData[]>(`/first-buyers/${tokenAddress}`);
+    return this.request<FirstBuyerData[]>(`/first-buyers/${tokenAddress}`, options);
   }
 
   /**
    * Get PnL data for a specific token in a wallet
    * @param wallet Wallet address
    * @param tokenAddress Token address
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Token-specific PnL data
    */
-  async getTokenPnL(wallet: string, tokenAddress: string): Promise<TokenPnLResponse> {
+  async getTokenPnL(wallet: WalletAddressLike, tokenAddress: MintAddressLike, options?: CallOptions): Promise<TokenPnLResponse> {
     this.validatePublicKey(wallet, 'wallet');
     this.validatePublicKey(tokenAddress, 'tokenAddress');
-    return this.request<TokenPnLResponse>(`/pnl/${wallet}/${tokenAddress}`);
+    return this.request<TokenPnLResponse>(`/pnl/${wallet}/${tokenAddress}`, options);
   }
 
   // ======== TOP TRADERS ENDPOINTS ========
 
+  /**
+   * Get the most profitable traders across all tokens
+   * @param options Page, sorting and per-call options
+   * @returns Top traders data
+   */
+  getTopTraders(options?: TopTradersQueryOptions & CallOptions): Promise<TopTradersResponse>;
   /**
    * Get the most profitable traders across all tokens
    * @param page Page number (optional)
    * @param expandPnL Include detailed PnL data for each token
    * @param sortBy Sort results by metric ("total" or "winPercentage")
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Top traders data
    */
-  async getTopTraders(
+  getTopTraders(
     page?: number,
     expandPnL?: boolean,
-    sortBy?: 'total' | 'winPercentage'
+    sortBy?: 'total' | 'winPercentage',
+    options?: CallOptions
+  ): Promise<TopTradersResponse>;
+  async getTopTraders(
+    pageOrOptions?: number | (TopTradersQueryOptions & CallOptions),
+    expandPnL?: boolean,
+    sortBy?: 'total' | 'winPercentage',
+    options?: CallOptions
   ): Promise<TopTradersResponse> {
+    const traders: TopTradersQueryOptions = isQueryOptions(pageOrOptions)
+      ? pageOrOptions
+      : { page: pageOrOptions, expandPnL, sortBy };
+    const callOptions = isQueryOptions(pageOrOptions) ? pageOrOptions : options;
+
     const params = new URLSearchParams();
-    if (expandPnL) params.append('expandPnL', 'true');
-    if (sortBy) params.append('sortBy', sortBy);
+    if (traders.expandPnL) params.append('expandPnL', 'true');
+    if (traders.sortBy) params.append('sortBy', traders.sortBy);
 
     const query = params.toString() ? `?${params.toString()}` : '';
-    const endpoint = page ? `/top-traders/all/${page}${query}` : `/top-traders/all${query}`;
+    const endpoint = traders.page
+      ? `/top-traders/all/${traders.page}${query}`
+      : `/top-traders/all${query}`;
 
-    return this.request<TopTradersResponse>(endpoint);
+    return this.request<TopTradersResponse>(endpoint, callOptions);
   }
 
   /**
    * Get top 100 traders by PnL for a token
    * @param tokenAddress Token address
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Top traders for a specific token
    */
-  async getTokenTopTraders(tokenAddress: string): Promise<FirstBuyerData[]> {
+  async getTokenTopTraders(tokenAddress: MintAddressLike, options?: CallOptions): Promise<FirstBuyerData[]> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
-    return this.request<FirstBuyerData[]>(`/top-traders/${tokenAddress}`);
+    return this.request<FirstBuyerData[]>(`/top-traders/${tokenAddress}`, options);
   }
 
   // ======== ADDITIONAL ENDPOINTS ========
@@ -758,22 +1719,112 @@ export class Client {
   /**
    * Get detailed stats for a token over various time intervals
    * @param tokenAddress Token address
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Detailed token stats
    */
-  async getTokenStats(tokenAddress: string): Promise<TokenStats> {
+  async getTokenStats(tokenAddress: MintAddressLike, options?: CallOptions): Promise<TokenStats> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
-    return this.request<TokenStats>(`/stats/${tokenAddress}`);
+    return this.request<TokenStats>(`/stats/${tokenAddress}`, options);
   }
 
   /**
    * Get detailed stats for a specific token and pool
    * @param tokenAddress Token address
    * @param poolAddress Pool address
+   * @param options Per-call options such as an abort signal or timeout
    * @returns Detailed token-pool stats
    */
-  async getPoolStats(tokenAddress: string, poolAddress: string): Promise<TokenStats> {
+  async getPoolStats(tokenAddress: MintAddressLike, poolAddress: PoolAddressLike, options?: CallOptions): Promise<TokenStats> {
     this.validatePublicKey(tokenAddress, 'tokenAddress');
     this.validatePublicKey(poolAddress, 'poolAddress');
-    return this.request<TokenStats>(`/stats/${tokenAddress}/${poolAddress}`);
+    return this.request<TokenStats>(`/stats/${tokenAddress}/${poolAddress}`, options);
+  }
+
+  // ======== PAGINATION ========
+
+  /**
+   * Iterate over every trade of a token, requesting pages as needed
+   * @param tokenAddress Token address
+   * @param options Trade filters, limits, stop conditions and per-call options
+   * @returns An async iterable of trades, newest first
+   */
+  iterateTokenTrades(tokenAddress: MintAddressLike, options?: TradePaginationOptions): Paginator<TradeTransaction> {
+    this.validatePublicKey(tokenAddress, 'tokenAddress');
+    return this.tradePaginator((query) => this.getTokenTrades(tokenAddress, query), options);
+  }
+
+  /**
+   * Iterate over every trade of a wallet, requesting pages as needed
+   * @param owner Wallet address
+   * @param options Trade filters, limits, stop conditions and per-call options
+   * @returns An async iterable of trades, newest first
+   */
+  iterateWalletTrades(owner: WalletAddressLike, options?: TradePaginationOptions): Paginator<TradeTransaction> {
+    this.validatePublicKey(owner, 'owner');
+    return this.tradePaginator((query) => this.getWalletTrades(owner, query), options);
+  }
+
+  /**
+   * Iterate over every token in a wallet, requesting pages as needed
+   * @param owner Wallet address
+   * @param options Limits, stop conditions and per-call options
+   * @returns An async iterable of wallet tokens
+   */
+  iterateWalletTokens(
+    owner: WalletAddressLike,
+    options: PaginationOptions<WalletTokenDetail> = {}
+  ): Paginator<WalletTokenDetail> {
+    this.validatePublicKey(owner, 'owner');
+    return new Paginator(async (page = 1) => {
+      const response = await this.getWalletPage(owner, page, options);
+      // A partial page is the last one
+      return { items: response.tokens, next: response.tokens.length < WALLET_PAGE_SIZE ? undefined : page + 1 };
+    }, options);
+  }
+
+  /**
+   * Iterate over every search result, requesting pages as needed
+   * @param params Search parameters and filters, `page` sets the first page
+   * @param options Limits, stop conditions and per-call options
+   * @returns An async iterable of search results
+   */
+  iterateSearch(params: SearchParams, options: PaginationOptions<SearchResult> = {}): Paginator<SearchResult> {
+    const pageSize = params.limit ?? DEFAULT_SEARCH_LIMIT;
+    return new Paginator(async (page = params.page || 1) => {
+      const response = await this.searchTokens({ ...params, page }, options);
+      // A partial page is the last one
+      return { items: response.data, next: response.data.length < pageSize ? undefined : page + 1 };
+    }, options);
+  }
+
+  /**
+   * Iterate over the most profitable traders across all tokens, requesting pages as needed
+   * @param options Sorting, limits, stop conditions and per-call options
+   * @returns An async iterable of traders
+   */
+  iterateTopTraders(options: TopTradersPaginationOptions = {}): Paginator<TopTrader> {
+    return new Paginator(async (page = 1) => {
+      const response = await this.getTopTraders({ ...options, page });
+      // A partial page is the last one
+      return { items: response.wallets, next: response.wallets.length < TOP_TRADERS_PAGE_SIZE ? undefined : page + 1 };
+    }, options);
+  }
+
+  private tradePaginator(
+    loadTrades: (query: TradeQueryOptions & CallOptions) => Promise<TradesResponse>,
+    options: TradePaginationOptions = {}
+  ): Paginator<TradeTransaction> {
+    const { stopAtTime, stopWhen } = options;
+    return new Paginator(
+      async (cursor) => {
+        const response = await loadTrades({ ...options, cursor });
+        return { items: response.trades, next: response.hasNextPage ? response.nextCursor : undefined };
+      },
+      {
+        ...options,
+        stopWhen: (trade) =>
+          (stopAtTime !== undefined && trade.time < stopAtTime) || (!!stopWhen && stopWhen(trade)),
+      }
+    );
   }
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { EventEmitter } from 'events';
 import "./websocket-polyfill";
+import { RoomMessageStats, StreamMessageMetrics, StreamTelemetry, TelemetryAdapter, byteLength } from './instrumentation';
 
 /**
  * Room types for the WebSocket data stream
@@ -25,6 +26,58 @@ export enum DatastreamRoom {
     POOL_CHANGES = 'pool'
 }
 
+/**
+ * Event passed to the open handler of a WebSocket
+ */
+export interface WebSocketEventLike {
+    type?: string;
+}
+
+/**
+ * Event passed to the message handler of a WebSocket
+ */
+export interface WebSocketMessageEventLike extends WebSocketEventLike {
+    /** The received frame, a string for the text frames the Datastream uses */
+    data: unknown;
+}
+
+/**
+ * Event passed to the close handler of a WebSocket
+ */
+export interface WebSocketCloseEventLike extends WebSocketEventLike {
+    code?: number;
+    reason?: string;
+}
+
+/**
+ * A WebSocket event handler. Declared through a method so implementations whose handlers take
+ * richer event types, such as the DOM MessageEvent, still satisfy WebSocketLike.
+ */
+export type WebSocketHandler<E> = { handle(event: E): void }['handle'];
+
+/**
+ * Minimal WebSocket shape used by the Datastream, satisfied by the browser WebSocket,
+ * the ws package and test doubles
+ */
+export interface WebSocketLike {
+    readonly readyState: number;
+    onopen: WebSocketHandler<WebSocketEventLike> | null;
+    onmessage: WebSocketHandler<WebSocketMessageEventLike> | null;
+    onclose: WebSocketHandler<WebSocketCloseEventLike> | null;
+    /** Receives whatever the implementation reports, e.g. an Event or an Error */
+    onerror: WebSocketHandler<unknown> | null;
+    send(data: string): void;
+    close(): void;
+}
+
+/**
+ * A WebSocket compatible constructor
+ */
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+/** WebSocket.OPEN, the ready state of an open connection */
+const WEBSOCKET_OPEN = 1;
+
 /**
  * Configuration for the Datastream client
  */
@@ -53,9 +106,19 @@ export interface DatastreamConfig {
      * @default 0.5
      */
     randomizationFactor?: number;
+    /**
+     * OpenTelemetry-compatible meter that receives message metrics per room.
+     * Metrics are also emitted as the `metrics` event regardless of this option.
+     */
+    telemetry?: TelemetryAdapter;
+    /**
+     * Custom WebSocket implementation, e.g. a test double.
+     * Defaults to the global WebSocket, falling back to the ws package in Node.js.
+     */
+    WebSocket?: WebSocketConstructor;
 }
 
-interface SubscribeResponse<T = any> {
+interface SubscribeResponse<T = unknown> {
     room: string;
     /**
      * Register a listener for this subscription
@@ -217,8 +280,9 @@ export class Datastream extends EventEmitter {
     public subscribe: SubscriptionMethods;
 
     private wsUrl: string;
-    private socket: WebSocket | null = null;
-    private transactionSocket: WebSocket | null = null;
+    private socket: WebSocketLike | null = null;
+    private transactionSocket: WebSocketLike | null = null;
+    private webSocketImpl?: WebSocketConstructor;
     private reconnectAttempts = 0;
     private reconnectDelay: number;
     private reconnectDelayMax: number;
@@ -227,6 +291,8 @@ export class Datastream extends EventEmitter {
     private transactions = new Set<string>();
     private autoReconnect: boolean;
     private isConnecting = false;
+    private telemetry: StreamTelemetry | null;
+    private messageStats = new Map<string, RoomMessageStats>();
 
     /**
      * Creates a new Datastream client for real-time Solana Tracker data
@@ -240,6 +306,8 @@ export class Datastream extends EventEmitter {
         this.reconnectDelayMax = config.reconnectDelayMax || 4500;
         this.randomizationFactor = config.randomizationFactor || 0.5;
         this.subscribe = new SubscriptionMethods(this);
+        this.telemetry = config.telemetry ? new StreamTelemetry(config.telemetry) : null;
+        this.webSocketImpl = config.WebSocket;
         if (typeof window !== 'undefined') {
             window.addEventListener('beforeunload', this.disconnect.bind(this));
         }
@@ -286,7 +354,8 @@ export class Datastream extends EventEmitter {
     private createSocket(type: 'main' | 'transaction'): Promise<void> {
         return new Promise((resolve, reject) => {
             try {
-                const socket = new WebSocket(this.wsUrl);
+                const WebSocketImpl: WebSocketConstructor = this.webSocketImpl || WebSocket;
+                const socket = new WebSocketImpl(this.wsUrl);
 
                 socket.onopen = () => {
                     if (type === 'main') {
@@ -316,13 +385,21 @@ export class Datastream extends EventEmitter {
      * @param socket The WebSocket connection
      * @param type Socket type ('main' or 'transaction')
      */
-    private setupSocketListeners(socket: WebSocket, type: 'main' | 'transaction'): void {
+    private setupSocketListeners(socket: WebSocketLike, type: 'main' | 'transaction'): void {
         socket.onmessage = (event) => {
             try {
-                const message = JSON.parse(event.data);
+                const message = JSON.parse(String(event.data));
                 if (message.type === 'message') {
+                    const duplicate = !!message.data?.tx && this.transactions.has(message.data.tx);
+                    this.recordMessage({
+                        room: message.room,
+                        socket: type,
+                        bytes: typeof event.data === 'string' ? byteLength(event.data) : 0,
+                        duplicate
+                    });
+
                     // Deduplicate transactions
-                    if (message.data?.tx && this.transactions.has(message.data.tx)) {
+                    if (duplicate) {
                         return;
                     } else if (message.data?.tx) {
                         this.transactions.add(message.data.tx);
@@ -355,6 +432,34 @@ export class Datastream extends EventEmitter {
         };
     }
 
+    /**
+     * Updates the per-room counters and reports a received message
+     * @param metrics Metrics of the message
+     */
+    private recordMessage(metrics: StreamMessageMetrics): void {
+        const stats = this.messageStats.get(metrics.room) || { messages: 0, bytes: 0 };
+        stats.messages++;
+        stats.bytes += metrics.bytes;
+        this.messageStats.set(metrics.room, stats);
+
+        if (this.telemetry) {
+            this.telemetry.record(metrics);
+        }
+        this.emit('metrics', metrics);
+    }
+
+    /**
+     * Number of messages and bytes received per room since the client was created
+     * @returns Counters keyed by room name
+     */
+    getMessageStats(): Record<string, RoomMessageStats> {
+        const result: Record<string, RoomMessageStats> = {};
+        this.messageStats.forEach((stats, room) => {
+            result[room] = { ...stats };
+        });
+        return result;
+    }
+
     /**
      * Disconnects from the WebSocket server
      */
@@ -402,14 +507,14 @@ export class Datastream extends EventEmitter {
      * @returns Response with room name and on() method for listening
      * @internal Used by SubscriptionMethods
      */
-    _subscribe<T = any>(room: string): SubscribeResponse<T> {
+    _subscribe<T = unknown>(room: string): SubscribeResponse<T> {
         this.subscribedRooms.add(room);
 
         const socket = room.includes('transaction')
             ? this.transactionSocket
             : this.socket;
 
-        if (socket && socket.readyState === WebSocket.OPEN) {
+        if (socket && socket.readyState === WEBSOCKET_OPEN) {
             socket.send(JSON.stringify({ type: 'join', room }));
         } else {
             // If not connected, we'll subscribe when connection is established
@@ -430,11 +535,11 @@ export class Datastream extends EventEmitter {
                     }
                 };
 
-                this.on(room, wrappedCallback as any);
+                this.on(room, wrappedCallback);
 
                 return {
                     unsubscribe: () => {
-                        this.removeListener(room, wrappedCallback as any);
+                        this.removeListener(room, wrappedCallback);
                     }
                 };
             }
@@ -478,7 +583,7 @@ export class Datastream extends EventEmitter {
             ? this.transactionSocket
             : this.socket;
 
-        if (socket && socket.readyState === WebSocket.OPEN) {
+        if (socket && socket.readyState === WEBSOCKET_OPEN) {
             socket.send(JSON.stringify({ type: 'leave', room }));
         }
 
@@ -491,9 +596,9 @@ export class Datastream extends EventEmitter {
     private resubscribeToRooms(): void {
         if (
             this.socket &&
-            this.socket.readyState === WebSocket.OPEN &&
+            this.socket.readyState === WEBSOCKET_OPEN &&
             this.transactionSocket &&
-            this.transactionSocket.readyState === WebSocket.OPEN
+            this.transactionSocket.readyState === WEBSOCKET_OPEN
         ) {
             for (const room of this.subscribedRooms) {
                 const socket = room.includes('transaction')
@@ -512,9 +617,9 @@ export class Datastream extends EventEmitter {
     isConnected(): boolean {
         return (
             !!this.socket &&
-            this.socket.readyState === WebSocket.OPEN &&
+            this.socket.readyState === WEBSOCKET_OPEN &&
             !!this.transactionSocket &&
-            this.transactionSocket.readyState === WebSocket.OPEN
+            this.transactionSocket.readyState === WEBSOCKET_OPEN
         );
     }
 }
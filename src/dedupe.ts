@@ -0,0 +1,63 @@
+import { Middleware } from './middleware';
+
+/**
+ * Statistics about request coalescing
+ */
+export interface DedupeStats {
+  /** Number of calls that were served by an identical request already in flight */
+  coalesced: number;
+  /** Number of distinct requests currently in flight */
+  inFlight: number;
+}
+
+/**
+ * Deep copies a parsed JSON response
+ */
+export const cloneResult = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+/**
+ * Shares a single in-flight request between concurrent identical GET calls
+ */
+export class RequestCoalescer {
+  private pending = new Map<string, Promise<unknown>>();
+  private coalesced = 0;
+
+  /**
+   * Creates the middleware that coalesces identical requests
+   * @param enabled Whether this call may share or lead a shared request
+   * @returns The coalescing middleware
+   */
+  middleware(enabled: boolean): Middleware {
+    return (context, next) => {
+      if (!enabled || context.method !== 'GET') {
+        return next();
+      }
+
+      const key = `${context.baseUrl}${context.endpoint}`;
+      const existing = this.pending.get(key);
+      if (existing) {
+        this.coalesced++;
+        context.state.coalesced = true;
+        // Followers get their own copy so one caller mutating the result can't affect another
+        return existing.then(cloneResult);
+      }
+
+      const promise = next();
+      this.pending.set(key, promise);
+      const cleanup = () => {
+        if (this.pending.get(key) === promise) {
+          this.pending.delete(key);
+        }
+      };
+      promise.then(cleanup, cleanup);
+      return promise;
+    };
+  }
+
+  /**
+   * Current coalescing statistics
+   */
+  get stats(): DedupeStats {
+    return { coalesced: this.coalesced, inFlight: this.pending.size };
+  }
+}
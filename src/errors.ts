@@ -0,0 +1,166 @@
+// Error types thrown by the Solana Tracker Data API client
+import { ValidationIssue } from './schema';
+
+/**
+ * Additional context attached to errors raised while calling the API
+ */
+export interface DataApiErrorDetails {
+  /** Endpoint path that was requested, including the query string */
+  endpoint?: string;
+  /** HTTP method of the request */
+  method?: string;
+  /** Error body returned by the API, parsed as JSON when possible */
+  body?: unknown;
+  /** Response headers */
+  headers?: Record<string, string>;
+  /** Request id returned by the API, useful when contacting support */
+  requestId?: string;
+  /** The underlying error */
+  cause?: unknown;
+}
+
+export class DataApiError extends Error {
+  public endpoint?: string;
+  public method?: string;
+  public body?: unknown;
+  public headers?: Record<string, string>;
+  public requestId?: string;
+  public cause?: unknown;
+
+  constructor(
+    message: string,
+    public status?: number,
+    public code?: string,
+    details: DataApiErrorDetails = {}
+  ) {
+    super(message);
+    this.name = 'DataApiError';
+    this.endpoint = details.endpoint;
+    this.method = details.method;
+    this.body = details.body;
+    this.headers = details.headers;
+    this.requestId = details.requestId;
+    this.cause = details.cause;
+  }
+}
+
+export class RateLimitError extends DataApiError {
+  constructor(message: string, public retryAfter?: number, details?: DataApiErrorDetails) {
+    super(message, 429, 'RATE_LIMIT_EXCEEDED', details);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class ValidationError extends DataApiError {
+  constructor(message: string, details?: DataApiErrorDetails) {
+    super(message, 400, 'VALIDATION_ERROR', details);
+    this.name = 'ValidationError';
+  }
+}
+
+export class AuthenticationError extends DataApiError {
+  constructor(message: string, status: 401 | 403, details?: DataApiErrorDetails) {
+    super(message, status, 'AUTHENTICATION_FAILED', details);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class NotFoundError extends DataApiError {
+  constructor(message: string, details?: DataApiErrorDetails) {
+    super(message, 404, 'NOT_FOUND', details);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class NetworkError extends DataApiError {
+  constructor(message: string, details?: DataApiErrorDetails) {
+    super(message, undefined, 'NETWORK_ERROR', details);
+    this.name = 'NetworkError';
+  }
+}
+
+export class ResponseParseError extends DataApiError {
+  constructor(message: string, status?: number, details?: DataApiErrorDetails) {
+    super(message, status, 'RESPONSE_PARSE_ERROR', details);
+    this.name = 'ResponseParseError';
+  }
+}
+
+export class ResponseValidationError extends DataApiError {
+  constructor(message: string, public issues: ValidationIssue[], details?: DataApiErrorDetails) {
+    super(message, undefined, 'RESPONSE_VALIDATION_ERROR', details);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+export class QueueFullError extends DataApiError {
+  constructor(message: string, details?: DataApiErrorDetails) {
+    super(message, undefined, 'QUEUE_FULL', details);
+    this.name = 'QueueFullError';
+  }
+}
+
+export class TimeoutError extends DataApiError {
+  constructor(message: string, public timeoutMs?: number, details?: DataApiErrorDetails) {
+    super(message, undefined, 'TIMEOUT', details);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class AbortError extends DataApiError {
+  constructor(message: string, details?: DataApiErrorDetails) {
+    super(message, undefined, 'ABORTED', details);
+    this.name = 'AbortError';
+  }
+}
+
+export class CircuitOpenError extends DataApiError {
+  constructor(
+    message: string,
+    /** Route template whose circuit is open, e.g. `/pnl/:wallet` */
+    public route: string,
+    /** Unix timestamp in milliseconds at which a trial request is let through again */
+    public retryAt: number,
+    details?: DataApiErrorDetails
+  ) {
+    super(message, undefined, 'CIRCUIT_OPEN', details);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Creates the error matching an unsuccessful HTTP response
+ * @param status HTTP status code
+ * @param statusText HTTP status text
+ * @param retryAfter Seconds to wait before retrying, for 429 responses
+ * @param details Request and response context
+ * @returns The most specific error for the status
+ */
+export function createHttpError(
+  status: number,
+  statusText: string,
+  retryAfter: number | undefined,
+  details: DataApiErrorDetails
+): DataApiError {
+  const body = details.body as { message?: unknown; error?: unknown } | undefined;
+  let apiMessage: string | undefined;
+  if (body && typeof body === 'object') {
+    if (typeof body.message === 'string') {
+      apiMessage = body.message;
+    } else if (typeof body.error === 'string') {
+      apiMessage = body.error;
+    }
+  }
+  const message = `API request failed: ${status} ${statusText}${apiMessage ? ` - ${apiMessage}` : ''}`;
+
+  if (status === 429) {
+    return new RateLimitError('Rate limit exceeded', retryAfter, details);
+  }
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, status, details);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, details);
+  }
+  return new DataApiError(message, status, undefined, details);
+}
@@ -1,12 +1,106 @@
 // Export main class and interfaces
-export { Client, DataApiError, RateLimitError, ValidationError } from './data-api';
-export type { DataApiConfig } from './data-api';
+export {
+  Client,
+  DataApiError,
+  RateLimitError,
+  ValidationError,
+  AuthenticationError,
+  NotFoundError,
+  NetworkError,
+  ResponseParseError,
+  ResponseValidationError,
+  QueueFullError,
+  TimeoutError,
+  AbortError,
+  CircuitOpenError
+} from './data-api';
+export { RateLimiter } from './rate-limiter';
+export type { RateLimiterConfig } from './rate-limiter';
+export type { DataApiConfig, CallOptions, ValidationMode } from './data-api';
+export type { DataApiErrorDetails } from './errors';
+export type { RetryConfig } from './retry';
+export { defaultFetch } from './transport';
+export type { FetchLike, FetchRequestInit, FetchResponseLike } from './transport';
+export type { Middleware, NextFunction, RequestContext } from './middleware';
+export { MemoryCacheStore, DEFAULT_CACHE_TTLS } from './cache';
+export type { CacheStore, CacheConfig, CacheTtl } from './cache';
+export type { DedupeStats } from './dedupe';
+export type { BatchingConfig } from './batcher';
+export type {
+  RequestMetrics,
+  StreamMessageMetrics,
+  RoomMessageStats,
+  TelemetryAdapter,
+  TelemetryAttributes,
+  TelemetryCounter,
+  TelemetryHistogram,
+  TelemetryMeter,
+  TelemetrySpan,
+  TelemetryTracer,
+} from './instrumentation';
+export type { UsageConfig, UsageSnapshot, UsageThresholdEvent } from './usage';
+export type { ApiKeyEntry, ApiKeyHealth, ApiKeyPoolConfig, ApiKeyStatus, ApiKeyStrategy } from './api-keys';
+export type { BaseUrlHealth, BaseUrlPoolConfig, BaseUrlStatus } from './base-urls';
+export type { CircuitBreakerConfig, CircuitSnapshot, CircuitState, CircuitStateChange } from './circuit-breaker';
+export type { ChunkedCallOptions, ChunkedResult, ChunkFailure } from './chunking';
+export { Paginator } from './pagination';
+export type { PageCursor, PaginationOptions, TradePaginationOptions, TopTradersPaginationOptions } from './pagination';
+export { validate } from './schema';
+export type { Schema, ValidationIssue } from './schema';
+export { schemas, RESPONSE_SCHEMAS } from './schemas';
+export { matchRoute, ROUTE_TEMPLATES } from './routes';
+export type { RouteMatch, RouteTemplate } from './routes';
+export {
+  decodeBase58,
+  encodeBase58,
+  isValidPublicKey,
+  assertPublicKey,
+  parseMintAddress,
+  parseWalletAddress,
+  parsePoolAddress,
+  assertMintAddress,
+  assertWalletAddress,
+  assertPoolAddress,
+  PUBLIC_KEY_LENGTH
+} from './address';
+export type {
+  MintAddress,
+  WalletAddress,
+  PoolAddress,
+  MintAddressLike,
+  WalletAddressLike,
+  PoolAddressLike
+} from './address';
+export {
+  TRENDING_TIMEFRAMES,
+  VOLUME_TIMEFRAMES,
+  CHART_INTERVALS,
+  isTrendingTimeframe,
+  isVolumeTimeframe,
+  isChartInterval,
+  assertTrendingTimeframe,
+  assertVolumeTimeframe,
+  assertChartInterval,
+  intervalToSeconds,
+  candleTimeRange
+} from './timeframes';
+export type { TrendingTimeframe, VolumeTimeframe, ChartInterval } from './timeframes';
+export { SearchBuilder, validateSearchParams, SEARCH_SORT_FIELDS, SEARCH_MARKETS } from './search';
+export type { SearchExecutor, SearchSortField, SearchMarket } from './search';
+export { createProxyHandler } from './proxy';
+export type { ProxyHandler, ProxyHandlerOptions, ProxyRateLimit } from './proxy';
 
 // Export Datastream for real-time updates
 export { 
   Datastream, 
   DatastreamRoom,
   type DatastreamConfig,
+  type WebSocketLike,
+  type WebSocketConstructor,
+  type WebSocketHandler,
+  type WebSocketEventLike,
+  type WebSocketMessageEventLike,
+  type WebSocketCloseEventLike,
   type PriceUpdate,
   type TokenTransaction,
   type PoolUpdate,
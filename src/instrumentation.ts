@@ -0,0 +1,244 @@
+/**
+ * Metrics for a single Client call, emitted as the `metrics` event once the call settles
+ */
+export interface RequestMetrics {
+  /** Route template, e.g. `/tokens/:mint` */
+  route: string;
+  /** Endpoint path that was requested, including the query string */
+  endpoint: string;
+  /** HTTP method */
+  method: string;
+  /** HTTP status of the last response, undefined if no response was received */
+  status?: number;
+  /** Unix timestamp in milliseconds at which the call started */
+  startTime: number;
+  /** Total duration in milliseconds, including queueing and retries */
+  durationMs: number;
+  /** Size of the last response body in bytes */
+  bytes: number;
+  /** Number of HTTP requests sent for this call (0 when served from cache or by another call) */
+  attempts: number;
+  /** Number of retries, i.e. attempts after the first */
+  retries: number;
+  /** Number of 429 responses received while making the call */
+  rateLimitHits: number;
+  /** Time in milliseconds spent waiting in the client-side rate limiter */
+  queuedMs: number;
+  /** Whether the response was served from the cache */
+  cacheHit: boolean;
+  /** Whether the call shared an identical request already in flight */
+  coalesced: boolean;
+  /** The error the call failed with, if any */
+  error?: unknown;
+}
+
+/**
+ * Metrics for a message received by the Datastream, emitted as the `metrics` event
+ */
+export interface StreamMessageMetrics {
+  /** Room the message was published to */
+  room: string;
+  /** Socket the message arrived on */
+  socket: 'main' | 'transaction';
+  /** Size of the raw message in bytes */
+  bytes: number;
+  /** Whether the message was dropped as a duplicate transaction */
+  duplicate: boolean;
+}
+
+/**
+ * Message counters for a Datastream room
+ */
+export interface RoomMessageStats {
+  messages: number;
+  bytes: number;
+}
+
+// The interfaces below are structural subsets of the OpenTelemetry API, so a
+// tracer from `trace.getTracer()` and a meter from `metrics.getMeter()` can be
+// passed in directly without this package depending on @opentelemetry/api.
+
+export type TelemetryAttributes = Record<string, string | number | boolean | undefined>;
+
+export interface TelemetrySpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(endTime?: number): unknown;
+}
+
+export interface TelemetryTracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: TelemetryAttributes; startTime?: number }
+  ): TelemetrySpan;
+}
+
+export interface TelemetryCounter {
+  add(value: number, attributes?: TelemetryAttributes): unknown;
+}
+
+export interface TelemetryHistogram {
+  record(value: number, attributes?: TelemetryAttributes): unknown;
+}
+
+export interface TelemetryMeter {
+  createCounter(name: string, options?: { description?: string; unit?: string }): TelemetryCounter;
+  createHistogram(name: string, options?: { description?: string; unit?: string }): TelemetryHistogram;
+}
+
+/**
+ * Tracing and metrics backends, shaped like OpenTelemetry
+ */
+export interface TelemetryAdapter {
+  /** Creates a client span for every API call */
+  tracer?: TelemetryTracer;
+  /** Records request and stream message metrics */
+  meter?: TelemetryMeter;
+}
+
+/** OpenTelemetry SpanKind.CLIENT */
+const SPAN_KIND_CLIENT = 2;
+/** OpenTelemetry SpanStatusCode.OK and SpanStatusCode.ERROR */
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Size of a string in UTF-8 bytes
+ */
+export function byteLength(text: string): number {
+  return typeof TextEncoder !== 'undefined' ? new TextEncoder().encode(text).length : text.length;
+}
+
+/**
+ * Reports Client calls to a telemetry adapter
+ */
+export class RequestTelemetry {
+  private requests?: TelemetryCounter;
+  private duration?: TelemetryHistogram;
+  private responseSize?: TelemetryHistogram;
+  private retries?: TelemetryCounter;
+  private rateLimitHits?: TelemetryCounter;
+
+  /**
+   * @param adapter The tracer and meter to report to
+   * @param serverAddress Host name of the API, added to span attributes
+   */
+  constructor(private adapter: TelemetryAdapter, private serverAddress: string) {
+    const meter = adapter.meter;
+    if (meter) {
+      this.requests = meter.createCounter('solana_tracker.client.requests', {
+        description: 'Number of Data API calls',
+      });
+      this.duration = meter.createHistogram('solana_tracker.client.duration', {
+        description: 'Duration of Data API calls',
+        unit: 'ms',
+      });
+      this.responseSize = meter.createHistogram('solana_tracker.client.response.size', {
+        description: 'Size of Data API response bodies',
+        unit: 'By',
+      });
+      this.retries = meter.createCounter('solana_tracker.client.retries', {
+        description: 'Number of retried Data API requests',
+      });
+      this.rateLimitHits = meter.createCounter('solana_tracker.client.rate_limited', {
+        description: 'Number of 429 responses received',
+      });
+    }
+  }
+
+  /**
+   * Starts a span for a call
+   * @param method HTTP method
+   * @param route Route template
+   * @param startTime Unix timestamp in milliseconds
+   * @returns The span, or undefined without a tracer
+   */
+  startSpan(method: string, route: string, startTime: number): TelemetrySpan | undefined {
+    return this.adapter.tracer?.startSpan(`${method} ${route}`, {
+      kind: SPAN_KIND_CLIENT,
+      startTime,
+      attributes: {
+        'http.request.method': method,
+        'http.route': route,
+        'server.address': this.serverAddress,
+      },
+    });
+  }
+
+  /**
+   * Ends the span of a call and records its metrics
+   * @param span The span returned by startSpan
+   * @param metrics Metrics of the settled call
+   */
+  finish(span: TelemetrySpan | undefined, metrics: RequestMetrics): void {
+    const attributes: TelemetryAttributes = {
+      'http.request.method': metrics.method,
+      'http.route': metrics.route,
+      'http.response.status_code': metrics.status,
+    };
+
+    if (span) {
+      if (metrics.status !== undefined) span.setAttribute('http.response.status_code', metrics.status);
+      span.setAttribute('http.response.body.size', metrics.bytes);
+      span.setAttribute('solana_tracker.attempts', metrics.attempts);
+      span.setAttribute('solana_tracker.cache_hit', metrics.cacheHit);
+      span.setAttribute('solana_tracker.coalesced', metrics.coalesced);
+      if (metrics.error) {
+        const error = metrics.error instanceof Error ? metrics.error : String(metrics.error);
+        span.recordException(error);
+        span.setStatus({
+          code: SPAN_STATUS_ERROR,
+          message: error instanceof Error ? error.message : error,
+        });
+      } else {
+        span.setStatus({ code: SPAN_STATUS_OK });
+      }
+      span.end(metrics.startTime + metrics.durationMs);
+    }
+
+    this.requests?.add(1, attributes);
+    this.duration?.record(metrics.durationMs, attributes);
+    if (metrics.attempts > 0) this.responseSize?.record(metrics.bytes, attributes);
+    if (metrics.retries > 0) this.retries?.add(metrics.retries, attributes);
+    if (metrics.rateLimitHits > 0) this.rateLimitHits?.add(metrics.rateLimitHits, attributes);
+  }
+}
+
+/**
+ * Reports Datastream messages to a telemetry adapter
+ */
+export class StreamTelemetry {
+  private messages?: TelemetryCounter;
+  private messageSize?: TelemetryHistogram;
+
+  /**
+   * @param adapter The meter to report to
+   */
+  constructor(adapter: TelemetryAdapter) {
+    if (adapter.meter) {
+      this.messages = adapter.meter.createCounter('solana_tracker.datastream.messages', {
+        description: 'Number of Datastream messages received',
+      });
+      this.messageSize = adapter.meter.createHistogram('solana_tracker.datastream.message.size', {
+        description: 'Size of Datastream messages',
+        unit: 'By',
+      });
+    }
+  }
+
+  /**
+   * Records a received message
+   * @param metrics Metrics of the message
+   */
+  record(metrics: StreamMessageMetrics): void {
+    // Room names can contain addresses, only the room type is used to keep cardinality low
+    const attributes: TelemetryAttributes = {
+      room: metrics.room.split(':')[0],
+      socket: metrics.socket,
+      duplicate: metrics.duplicate,
+    };
+    this.messages?.add(1, attributes);
+    this.messageSize?.record(metrics.bytes, attributes);
+  }
+}
@@ -1,4 +1,6 @@
 // Core interfaces for the Solana Tracker Data API
+import { ChartInterval, VolumeTimeframe } from './timeframes';
+import { SearchMarket, SearchSortField } from './search';
 
 export interface TokenInfo {
     name: string;
@@ -156,12 +158,17 @@ export interface TokenInfo {
     tokens: DeployerToken[];
   }
   
+  export type SortOrder = 'asc' | 'desc';
+
+  /** Token lifecycle status */
+  export type SearchStatus = 'default' | 'graduating' | 'graduated';
+
   export interface SearchParams {
     query?: string;
     page?: number;
     limit?: number;
-    sortBy?: string;
-    sortOrder?: string;
+    sortBy?: SearchSortField;
+    sortOrder?: SortOrder;
     showAllPools?: boolean;
     minCreatedAt?: number;
     maxCreatedAt?: number;
@@ -171,21 +178,22 @@ export interface TokenInfo {
     maxMarketCap?: number;
     minVolume?: number;
     maxVolume?: number;
-    volumeTimeframe?: string;
+    /** Timeframe the volume filters apply to */
+    volumeTimeframe?: VolumeTimeframe;
     minBuys?: number;
     maxBuys?: number;
     minSells?: number;
     maxSells?: number;
     minTotalTransactions?: number;
     maxTotalTransactions?: number;
+    /** Minimum LP burn percentage (0-100) */
     lpBurn?: number;
-    market?: string;
+    market?: SearchMarket;
     freezeAuthority?: string;
     mintAuthority?: string;
     deployer?: string;
-    status?: string;
+    status?: SearchStatus;
     showPriceChanges?: boolean;
-    [key: string]: string | number | boolean | undefined;
   }
   
   export interface SearchResult {
@@ -450,3 +458,50 @@ export interface TokenInfo {
     "4h"?: TimeframeStats;
     "24h"?: TimeframeStats;
   }
+
+  // Query options for the options-object call style of the Client methods
+
+  export interface TradeQueryOptions {
+    /** Pagination cursor (the nextCursor of the previous page) */
+    cursor?: number;
+    /** Include token metadata */
+    showMeta?: boolean;
+    /** Parse Jupiter swaps */
+    parseJupiter?: boolean;
+    /** Hide arbitrage transactions */
+    hideArb?: boolean;
+  }
+
+  export interface HoldersChartQueryOptions {
+    /** Candle interval (e.g., "1s", "1m", "1h", "1d") */
+    type?: ChartInterval;
+    /** Start time (Unix timestamp in seconds) */
+    timeFrom?: number;
+    /** End time (Unix timestamp in seconds) */
+    timeTo?: number;
+  }
+
+  export interface ChartQueryOptions extends HoldersChartQueryOptions {
+    /** Return chart for market cap instead of pricing */
+    marketCap?: boolean;
+    /** Disable outlier removal if set to false (default: true) */
+    removeOutliers?: boolean;
+  }
+
+  export interface WalletPnLQueryOptions {
+    /** Add PnL data for 1d, 7d and 30d intervals (BETA) */
+    showHistoricPnL?: boolean;
+    /** Additional check for current holding value */
+    holdingCheck?: boolean;
+    /** Return only summary without data for each token */
+    hideDetails?: boolean;
+  }
+
+  export interface TopTradersQueryOptions {
+    /** Page number */
+    page?: number;
+    /** Include detailed PnL data for each token */
+    expandPnL?: boolean;
+    /** Sort results by metric */
+    sortBy?: 'total' | 'winPercentage';
+  }
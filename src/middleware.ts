@@ -0,0 +1,76 @@
+/**
+ * A request flowing through the client's middleware chain.
+ * Middleware may modify any of the writable fields before calling next().
+ */
+export interface RequestContext {
+  /** Endpoint path including the query string, e.g. `/tokens/<mint>` */
+  endpoint: string;
+  /** Base URL the request is sent to */
+  baseUrl: string;
+  /** HTTP method */
+  method: string;
+  /** Request headers (the API key is added when the request is sent and is not visible here) */
+  headers: Record<string, string>;
+  /** Serialized request body, if any */
+  body?: unknown;
+  /** Signal that is aborted when the call is cancelled or times out */
+  signal?: AbortSignal;
+  /** Status and headers of the last HTTP response, set once a response was received */
+  response?: {
+    status: number;
+    headers: {
+      get(name: string): string | null;
+    };
+  };
+  /** Free-form storage for sharing data between middleware */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Continues to the next middleware, resolving with the (possibly transformed) response body
+ */
+export type NextFunction = () => Promise<unknown>;
+
+/**
+ * Client middleware.
+ *
+ * Call `next()` to continue the chain and return its result, optionally transformed.
+ * Return a value without calling `next()` to short-circuit the request, e.g. with a cached response.
+ * Errors thrown by later middleware or by the request itself can be caught around `next()`.
+ */
+export type Middleware = (context: RequestContext, next: NextFunction) => Promise<unknown>;
+
+/**
+ * Composes middleware into a single function, onion style: the first middleware
+ * registered is the outermost one.
+ * @param middleware The middleware to run, in order
+ * @param handler The innermost handler that actually performs the request
+ * @returns Function running the whole chain for a context
+ */
+export function compose(
+  middleware: Middleware[],
+  handler: (context: RequestContext) => Promise<unknown>
+): (context: RequestContext) => Promise<unknown> {
+  return (context) => {
+    let lastIndex = -1;
+
+    const dispatch = (index: number): Promise<unknown> => {
+      if (index <= lastIndex) {
+        return Promise.reject(new Error('next() called multiple times'));
+      }
+      lastIndex = index;
+
+      if (index === middleware.length) {
+        return handler(context);
+      }
+
+      try {
+        return Promise.resolve(middleware[index](context, () => dispatch(index + 1)));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    };
+
+    return dispatch(0);
+  };
+}
@@ -0,0 +1,139 @@
+import { CallOptions } from './data-api';
+import { TopTrader, TopTradersQueryOptions, TradeQueryOptions, TradeTransaction } from './interfaces';
+
+/**
+ * Position in a paginated listing, used to resume iteration later
+ */
+export interface PageCursor {
+  /** Cursor or page number of the page to request, undefined for the first page */
+  cursor?: number;
+  /** Number of items of that page that were already consumed */
+  offset: number;
+}
+
+/**
+ * Options shared by the `iterate*` methods
+ */
+export interface PaginationOptions<T> extends CallOptions {
+  /** Stop after this many items have been yielded */
+  maxItems?: number;
+  /** Stop after this many pages have been requested */
+  maxPages?: number;
+  /** Stop (without yielding the item) as soon as this returns true */
+  stopWhen?: (item: T) => boolean;
+  /** Resume from a cursor previously read from `Paginator.cursor` */
+  resumeFrom?: PageCursor;
+}
+
+/**
+ * A single page returned by a page loader
+ */
+export interface Page<T> {
+  items: T[];
+  /** Cursor or page number of the next page, undefined on the last page */
+  next?: number;
+}
+
+export type PageLoader<T> = (cursor: number | undefined) => Promise<Page<T>>;
+
+/**
+ * Lazily walks a paginated endpoint, one request per page.
+ * Iterating the same paginator again continues where the previous loop stopped.
+ */
+export class Paginator<T> implements AsyncIterable<T> {
+  private position: PageCursor | undefined;
+  private itemCount = 0;
+  private pageCount = 0;
+
+  /**
+   * @param loadPage Fetches the page at the given cursor
+   * @param options Limits and stop conditions
+   */
+  constructor(private loadPage: PageLoader<T>, private options: PaginationOptions<T> = {}) {
+    this.position = options.resumeFrom ? { ...options.resumeFrom } : { offset: 0 };
+  }
+
+  /**
+   * Where the next item will be read from, or undefined once the listing is exhausted
+   * or a stop condition was met. Pass it as `resumeFrom` to continue later.
+   */
+  get cursor(): PageCursor | undefined {
+    return this.position && { ...this.position };
+  }
+
+  /**
+   * Number of items yielded so far
+   */
+  get itemsYielded(): number {
+    return this.itemCount;
+  }
+
+  /**
+   * Number of pages requested so far
+   */
+  get pagesFetched(): number {
+    return this.pageCount;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    const { maxItems, maxPages, stopWhen } = this.options;
+
+    while (this.position) {
+      if (maxItems !== undefined && this.itemCount >= maxItems) return;
+      if (maxPages !== undefined && this.pageCount >= maxPages) return;
+
+      const { cursor, offset } = this.position;
+      const page = await this.loadPage(cursor);
+      this.pageCount++;
+
+      for (let index = offset; index < page.items.length; index++) {
+        if (maxItems !== undefined && this.itemCount >= maxItems) return;
+
+        const item = page.items[index];
+        if (stopWhen && stopWhen(item)) {
+          this.position = undefined;
+          return;
+        }
+
+        this.position = { cursor, offset: index + 1 };
+        this.itemCount++;
+        yield item;
+      }
+
+      this.position =
+        page.items.length > 0 && page.next !== undefined ? { cursor: page.next, offset: 0 } : undefined;
+    }
+  }
+
+  /**
+   * Collects the remaining items into an array
+   * @returns Every item up to the configured limits
+   */
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+}
+
+/**
+ * Options for iterating over trades
+ */
+export interface TradePaginationOptions
+  extends PaginationOptions<TradeTransaction>,
+    Omit<TradeQueryOptions, 'cursor'> {
+  /**
+   * Stop at the first trade older than this Unix timestamp in milliseconds (the unit of `trade.time`).
+   * Trades are returned newest first.
+   */
+  stopAtTime?: number;
+}
+
+/**
+ * Options for iterating over the most profitable traders
+ */
+export interface TopTradersPaginationOptions
+  extends PaginationOptions<TopTrader>,
+    Omit<TopTradersQueryOptions, 'page'> {}
@@ -0,0 +1,312 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { Client, DataApiConfig } from './data-api';
+import {
+  CircuitOpenError,
+  DataApiError,
+  NetworkError,
+  RateLimitError,
+  ResponseParseError,
+  ResponseValidationError,
+  TimeoutError,
+} from './errors';
+import { ROUTE_TEMPLATES, RouteMatch, RouteTemplate, buildPath, matchRoute } from './routes';
+
+/**
+ * Routes the Client sends as POST requests, every other route only accepts GET
+ */
+const POST_ROUTES: string[] = ['/price', '/price/multi', '/tokens/multi'];
+
+/**
+ * Per-IP limit of the proxy
+ */
+export interface ProxyRateLimit {
+  /** Requests allowed per window for each IP */
+  requests: number;
+  /**
+   * Window length in milliseconds
+   * @default 60000
+   */
+  windowMs?: number;
+}
+
+/**
+ * Config options for the proxy handler
+ */
+export interface ProxyHandlerOptions {
+  /**
+   * Client used to call the API, or the config to create one with.
+   * A client created from a config caches responses by default, shared between all visitors.
+   */
+  client: Client | DataApiConfig;
+  /**
+   * Path prefix the proxy is mounted at, e.g. `/api/solana-tracker`. Requests outside of it are
+   * passed to `next` when given, and answered with 404 otherwise.
+   * @default ''
+   */
+  basePath?: string;
+  /**
+   * Route templates browsers may call, e.g. `['/tokens/:mint', '/price']`
+   * @default every route the Client calls
+   */
+  allow?: (RouteTemplate | string)[];
+  /**
+   * Per-IP rate limit, or false to disable it
+   * @default { requests: 60, windowMs: 60000 }
+   */
+  rateLimit?: ProxyRateLimit | false;
+  /**
+   * Read the client IP from the `X-Forwarded-For` header, when running behind a trusted reverse proxy
+   * @default false
+   */
+  trustProxy?: boolean;
+  /**
+   * Allowed origins for cross-origin requests: true for any origin, or a list of origins
+   * @default false
+   */
+  cors?: boolean | string[];
+  /**
+   * Maximum size of a POST body in bytes
+   * @default 65536
+   */
+  maxBodyBytes?: number;
+}
+
+/**
+ * Node request handler, usable with `http.createServer`, Express, Connect and similar frameworks
+ */
+export type ProxyHandler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next?: (error?: unknown) => void
+) => Promise<void>;
+
+interface RateWindow {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Counts requests per IP in fixed windows
+ */
+class IpRateLimiter {
+  private windows = new Map<string, RateWindow>();
+  private windowMs: number;
+  private nextSweep = 0;
+
+  constructor(private limit: ProxyRateLimit) {
+    this.windowMs = limit.windowMs ?? 60000;
+  }
+
+  /**
+   * Counts a request
+   * @param ip Client IP
+   * @returns Seconds until the IP may send again, or 0 if the request is allowed
+   */
+  hit(ip: string): number {
+    const now = Date.now();
+    if (now >= this.nextSweep) {
+      // Drop expired windows so idle IPs don't accumulate
+      this.windows.forEach((window, key) => window.resetAt <= now && this.windows.delete(key));
+      this.nextSweep = now + this.windowMs;
+    }
+
+    let window = this.windows.get(ip);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(ip, window);
+    }
+    window.count++;
+    return window.count > this.limit.requests ? Math.ceil((window.resetAt - now) / 1000) : 0;
+  }
+}
+
+/**
+ * Status code the proxy answers with for a failed API call
+ */
+const statusFor = (error: unknown): number => {
+  if (error instanceof DataApiError && error.status !== undefined && error.status >= 400) {
+    return error.status;
+  }
+  if (error instanceof CircuitOpenError) return 503;
+  if (error instanceof TimeoutError) return 504;
+  // The upstream could not be reached or sent a response that could not be used, even if its status was 200
+  if (error instanceof NetworkError || error instanceof ResponseParseError || error instanceof ResponseValidationError) {
+    return 502;
+  }
+  return 500;
+};
+
+/**
+ * Whether a path segment could change the path once the upstream normalizes it, e.g. `..`, `%2e%2e` or `a%2F..`
+ * @throws URIError for malformed escapes
+ */
+const isUnsafeSegment = (segment: string): boolean => {
+  const decoded = decodeURIComponent(segment);
+  return /%2e/i.test(segment) || decoded === '.' || decoded === '..' || /[/\\]/.test(decoded);
+};
+
+/**
+ * Matches a browser request against the route table
+ * @param endpoint Path and query string below the base path
+ * @returns The matched route, or undefined for paths with dot segments or encoded separators
+ * @throws URIError for malformed escapes
+ */
+const matchEndpoint = (endpoint: string): RouteMatch | undefined => {
+  const path = endpoint.split('?')[0];
+  if (path.split('/').slice(1).some(isUnsafeSegment)) {
+    return undefined;
+  }
+  return matchRoute(endpoint);
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void => {
+  const text = JSON.stringify(body);
+  res.writeHead(status, {
+    ...headers,
+    'Content-Type': 'application/json',
+    'Content-Length': String(Buffer.byteLength(text)),
+  });
+  res.end(text);
+};
+
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<string> => {
+  // Frameworks with a body parser have already consumed the stream
+  const parsed = (req as IncomingMessage & { body?: unknown }).body;
+  if (parsed !== undefined) {
+    return Promise.resolve(typeof parsed === 'string' ? parsed : JSON.stringify(parsed));
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new DataApiError(`Request body exceeds ${maxBytes} bytes`, 413, 'BODY_TOO_LARGE'));
+        // Discard the rest so the 413 response still reaches the browser
+        req.removeAllListeners('data');
+        req.resume();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+};
+
+const clientIp = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && forwarded) {
+    return (Array.isArray(forwarded) ? forwarded[0] : forwarded).split(',')[0].trim();
+  }
+  return req.socket?.remoteAddress || 'unknown';
+};
+
+/**
+ * Creates a request handler that exposes the Data API to browsers without revealing the API key.
+ * The key is added server-side; browsers use a Client created with `proxyUrl` pointing at the handler.
+ * @param options Client, allowlist, rate limit and CORS options
+ * @returns The request handler
+ */
+export function createProxyHandler(options: ProxyHandlerOptions): ProxyHandler {
+  const client =
+    options.client instanceof Client ? options.client : new Client({ cache: true, ...options.client });
+  const basePath = (options.basePath || '').replace(/\/+$/, '');
+  const allowed = new Set<string>(options.allow || ROUTE_TEMPLATES);
+  const limiter =
+    options.rateLimit === false ? null : new IpRateLimiter(options.rateLimit || { requests: 60, windowMs: 60000 });
+  const trustProxy = options.trustProxy === true;
+  const maxBodyBytes = options.maxBodyBytes ?? 65536;
+
+  const corsHeaders = (req: IncomingMessage): Record<string, string> => {
+    const origin = req.headers.origin;
+    if (!options.cors || !origin) {
+      return {};
+    }
+    if (options.cors !== true && !options.cors.includes(origin)) {
+      return {};
+    }
+    return {
+      'Access-Control-Allow-Origin': options.cors === true ? '*' : origin,
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      Vary: 'Origin',
+    };
+  };
+
+  return async (req, res, next) => {
+    const url = req.url || '/';
+    if (basePath && url !== basePath && !url.startsWith(`${basePath}/`) && !url.startsWith(`${basePath}?`)) {
+      if (next) {
+        next();
+      } else {
+        sendJson(res, 404, { error: 'Not found', code: 'NOT_FOUND' });
+      }
+      return;
+    }
+
+    const headers = corsHeaders(req);
+    const method = (req.method || 'GET').toUpperCase();
+    if (method === 'OPTIONS') {
+      res.writeHead(204, headers);
+      res.end();
+      return;
+    }
+
+    const endpoint = url.slice(basePath.length) || '/';
+    let match: RouteMatch | undefined;
+    try {
+      match = matchEndpoint(endpoint);
+    } catch {
+      sendJson(res, 400, { error: 'Malformed request path', code: 'BAD_REQUEST' }, headers);
+      return;
+    }
+    const template = match ? match.template : endpoint.split('?')[0];
+    if (!match || !allowed.has(template)) {
+      sendJson(res, 403, { error: `Endpoint not allowed: ${template}`, code: 'FORBIDDEN' }, headers);
+      return;
+    }
+    if (method !== 'GET' && !(method === 'POST' && POST_ROUTES.includes(template))) {
+      sendJson(res, 405, { error: `Method ${method} not allowed`, code: 'METHOD_NOT_ALLOWED' }, headers);
+      return;
+    }
+
+    if (limiter) {
+      const retryAfter = limiter.hit(clientIp(req, trustProxy));
+      if (retryAfter > 0) {
+        sendJson(
+          res,
+          429,
+          { error: 'Too many requests', code: 'RATE_LIMIT_EXCEEDED' },
+          { ...headers, 'Retry-After': String(retryAfter) }
+        );
+        return;
+      }
+    }
+
+    try {
+      const body = method === 'POST' ? await readBody(req, maxBodyBytes) : undefined;
+      // Rebuilt from the template so only the matched route reaches the API, never the raw client path
+      const query = match.query.toString();
+      const upstream = `${buildPath(template, match.params)}${query ? `?${query}` : ''}`;
+      const result = await client.forward(upstream, { method, body });
+      sendJson(res, 200, result, headers);
+    } catch (error) {
+      const status = statusFor(error);
+      const errorHeaders =
+        error instanceof RateLimitError && error.retryAfter !== undefined
+          ? { ...headers, 'Retry-After': String(error.retryAfter) }
+          : headers;
+      sendJson(
+        res,
+        status,
+        {
+          error: error instanceof Error ? error.message : 'Internal error',
+          code: error instanceof DataApiError ? error.code : undefined,
+        },
+        errorHeaders
+      );
+    }
+  };
+}
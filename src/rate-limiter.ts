@@ -0,0 +1,161 @@
+import { AbortError, QueueFullError } from './errors';
+
+/**
+ * Config options for the client-side rate limiter
+ */
+export interface RateLimiterConfig {
+  /** Sustained number of requests allowed per second (the Free plan allows 1) */
+  requestsPerSecond: number;
+  /**
+   * Maximum number of requests that can be sent at once after a quiet period
+   * @default 1
+   */
+  burst?: number;
+  /**
+   * Maximum number of requests waiting for a slot. Further requests fail with a QueueFullError.
+   * @default Infinity
+   */
+  maxQueueLength?: number;
+  /**
+   * Share a single limiter between every Client created with the same API key
+   * @default false
+   */
+  shared?: boolean;
+}
+
+interface QueuedRequest {
+  resolve: () => void;
+}
+
+/**
+ * Token bucket rate limiter that queues requests until a slot is available
+ */
+export class RateLimiter {
+  private static sharedLimiters = new Map<string, RateLimiter>();
+
+  private requestsPerSecond: number;
+  private burst: number;
+  private maxQueueLength: number;
+  private tokens: number;
+  private lastRefill: number;
+  private queue: QueuedRequest[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Creates a new rate limiter
+   * @param config Rate limiter configuration
+   */
+  constructor(config: RateLimiterConfig) {
+    if (!(config.requestsPerSecond > 0)) {
+      throw new RangeError('requestsPerSecond must be greater than 0');
+    }
+    this.requestsPerSecond = config.requestsPerSecond;
+    this.burst = Math.max(1, config.burst || 1);
+    this.maxQueueLength = config.maxQueueLength ?? Infinity;
+    this.tokens = this.burst;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Returns the limiter shared by every client using the given key, creating it if needed
+   * @param key The API key (or any other identifier) to share the limiter on
+   * @param config Rate limiter configuration, only used when the limiter is created
+   * @returns The shared rate limiter
+   */
+  static shared(key: string, config: RateLimiterConfig): RateLimiter {
+    let limiter = RateLimiter.sharedLimiters.get(key);
+    if (!limiter) {
+      limiter = new RateLimiter(config);
+      RateLimiter.sharedLimiters.set(key, limiter);
+    }
+    return limiter;
+  }
+
+  /**
+   * Number of requests currently waiting for a slot
+   */
+  get queueDepth(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Waits until a request may be sent
+   * @param signal Optional signal that removes the request from the queue when aborted
+   * @returns Promise that resolves when a slot is available
+   * @throws QueueFullError if the queue is already at its maximum length
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    this.refill();
+
+    if (this.queue.length === 0 && this.tokens >= 1) {
+      this.tokens--;
+      return Promise.resolve();
+    }
+
+    if (this.queue.length >= this.maxQueueLength) {
+      return Promise.reject(
+        new QueueFullError(`Rate limiter queue is full (${this.maxQueueLength} requests waiting)`)
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const entry: QueuedRequest = { resolve };
+      if (signal) {
+        const onAbort = () => {
+          const index = this.queue.indexOf(entry);
+          if (index !== -1) {
+            this.queue.splice(index, 1);
+          }
+          reject(new AbortError('Request was aborted while queued'));
+        };
+        if (signal.aborted) {
+          onAbort();
+          return;
+        }
+        signal.addEventListener('abort', onAbort);
+        entry.resolve = () => {
+          signal.removeEventListener('abort', onAbort);
+          resolve();
+        };
+      }
+      this.queue.push(entry);
+      this.schedule();
+    });
+  }
+
+  /**
+   * Adds the tokens earned since the last refill
+   */
+  private refill(): void {
+    const now = Date.now();
+    const earned = ((now - this.lastRefill) / 1000) * this.requestsPerSecond;
+    this.tokens = Math.min(this.burst, this.tokens + earned);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Releases queued requests as tokens become available
+   */
+  private drain(): void {
+    this.timer = null;
+    this.refill();
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      this.tokens--;
+      this.queue.shift()!.resolve();
+    }
+
+    this.schedule();
+  }
+
+  /**
+   * Schedules the next drain for when a token will be available
+   */
+  private schedule(): void {
+    if (this.timer || this.queue.length === 0) {
+      return;
+    }
+    const wait = Math.max(0, ((1 - this.tokens) / this.requestsPerSecond) * 1000);
+    this.timer = setTimeout(() => this.drain(), Math.ceil(wait));
+  }
+}
@@ -0,0 +1,165 @@
+import { DataApiError, NetworkError, RateLimitError } from './errors';
+
+/**
+ * Retry policy for failed API requests
+ */
+export interface RetryConfig {
+  /**
+   * Maximum number of attempts, including the first one
+   * @default 3
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry in milliseconds, doubled on every attempt
+   * @default 500
+   */
+  baseDelayMs?: number;
+  /**
+   * Maximum backoff delay in milliseconds (does not cap a server-provided Retry-After)
+   * @default 10000
+   */
+  maxDelayMs?: number;
+  /**
+   * Randomization factor applied to the backoff delay
+   * @default 0.5
+   */
+  jitter?: number;
+  /**
+   * HTTP status codes that should be retried
+   * @default [429, 502, 503, 504]
+   */
+  retryOnStatus?: number[];
+  /**
+   * Retry requests that failed before a response was received
+   * @default true
+   */
+  retryOnNetworkError?: boolean;
+  /**
+   * Also retry non-idempotent requests such as POST
+   * @default false
+   */
+  retryNonIdempotent?: boolean;
+  /**
+   * Custom predicate, called after the built-in checks passed.
+   * Return false to stop retrying.
+   */
+  shouldRetry?: (error: DataApiError, attempt: number) => boolean;
+}
+
+const DEFAULT_RETRY_CONFIG: Required<Omit<RetryConfig, 'shouldRetry'>> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  jitter: 0.5,
+  retryOnStatus: [429, 502, 503, 504],
+  retryOnNetworkError: true,
+  retryNonIdempotent: false,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+export type ResolvedRetryConfig = typeof DEFAULT_RETRY_CONFIG & Pick<RetryConfig, 'shouldRetry'>;
+
+/**
+ * Merges a user supplied retry config with the defaults
+ * @param config The retry option from DataApiConfig
+ * @returns The resolved config, or null when retries are disabled
+ */
+export function resolveRetryConfig(config?: boolean | RetryConfig): ResolvedRetryConfig | null {
+  if (!config) {
+    return null;
+  }
+  return { ...DEFAULT_RETRY_CONFIG, ...(config === true ? {} : config) };
+}
+
+/**
+ * Whether requests with the given HTTP method can safely be sent more than once
+ * @param method The HTTP method
+ */
+export function isIdempotentMethod(method: string): boolean {
+  return IDEMPOTENT_METHODS.includes(method.toUpperCase());
+}
+
+/**
+ * Works out whether a failed request should be retried and how long to wait
+ * @param config The resolved retry config
+ * @param error The error thrown by the last attempt
+ * @param attempt The number of the attempt that just failed (starting at 1)
+ * @param idempotent Whether the request may safely be sent again, e.g. a GET or a POST that only reads data
+ * @returns The delay in milliseconds before the next attempt, or null to give up
+ */
+export function getRetryDelay(
+  config: ResolvedRetryConfig,
+  error: unknown,
+  attempt: number,
+  idempotent: boolean
+): number | null {
+  if (attempt >= config.maxAttempts || !(error instanceof DataApiError)) {
+    return null;
+  }
+  if (!config.retryNonIdempotent && !idempotent) {
+    return null;
+  }
+
+  const isNetworkError = error instanceof NetworkError;
+  if (isNetworkError && !config.retryOnNetworkError) {
+    return null;
+  }
+  if (!isNetworkError && (error.status === undefined || !config.retryOnStatus.includes(error.status))) {
+    return null;
+  }
+  if (config.shouldRetry && !config.shouldRetry(error, attempt)) {
+    return null;
+  }
+
+  if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+    return error.retryAfter * 1000;
+  }
+
+  const delay = Math.min(config.baseDelayMs * Math.pow(2, attempt - 1), config.maxDelayMs);
+  return delay + Math.random() * delay * config.jitter;
+}
+
+/**
+ * Waits for the given number of milliseconds
+ * @param ms Milliseconds to wait
+ * @param signal Optional signal that stops the timer early when aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      // Long-lived signals would otherwise collect one listener per sleep
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Parses a Retry-After header value, which may be a number of seconds or an HTTP date
+ * @param value The raw header value
+ * @returns The number of seconds to wait, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+  return undefined;
+}
@@ -0,0 +1,106 @@
+/**
+ * Route templates for every endpoint the Client calls, most specific first
+ */
+export const ROUTE_TEMPLATES = [
+  '/tokens/multi/all',
+  '/tokens/multi/graduated',
+  '/tokens/multi',
+  '/tokens/latest',
+  '/tokens/trending',
+  '/tokens/trending/:timeframe',
+  '/tokens/volume',
+  '/tokens/volume/:timeframe',
+  '/tokens/by-pool/:pool',
+  '/tokens/:mint/holders/top',
+  '/tokens/:mint/holders',
+  '/tokens/:mint/ath',
+  '/tokens/:mint',
+  '/deployer/:wallet',
+  '/search',
+  '/price/history/timestamp',
+  '/price/history/range',
+  '/price/history',
+  '/price/multi',
+  '/price',
+  '/wallet/:owner/basic',
+  '/wallet/:owner/page/:page',
+  '/wallet/:owner/trades',
+  '/wallet/:owner',
+  '/trades/:mint/by-wallet/:owner',
+  '/trades/:mint/:pool/:owner',
+  '/trades/:mint/:pool',
+  '/trades/:mint',
+  '/chart/:mint/:pool',
+  '/chart/:mint',
+  '/holders/chart/:mint',
+  '/pnl/:wallet/:mint',
+  '/pnl/:wallet',
+  '/first-buyers/:mint',
+  '/top-traders/all/:page',
+  '/top-traders/all',
+  '/top-traders/:mint',
+  '/stats/:mint/:pool',
+  '/stats/:mint',
+] as const;
+
+export type RouteTemplate = typeof ROUTE_TEMPLATES[number];
+
+/**
+ * An endpoint matched against the route table
+ */
+export interface RouteMatch {
+  /** The route template, e.g. `/tokens/:mint`, or the raw path for unknown endpoints */
+  template: string;
+  /** Values of the path parameters, keyed by name */
+  params: Record<string, string>;
+  /** Parsed query string */
+  query: URLSearchParams;
+}
+
+const compiledRoutes = ROUTE_TEMPLATES.map((template) => ({
+  template,
+  segments: template.split('/').slice(1),
+}));
+
+/**
+ * Matches an endpoint path against the known route templates
+ * @param endpoint Endpoint path, optionally including a query string
+ * @returns The matched route
+ */
+export function matchRoute(endpoint: string): RouteMatch {
+  const queryIndex = endpoint.indexOf('?');
+  const path = queryIndex === -1 ? endpoint : endpoint.slice(0, queryIndex);
+  const query = new URLSearchParams(queryIndex === -1 ? '' : endpoint.slice(queryIndex + 1));
+  const segments = path.split('/').slice(1);
+
+  for (const route of compiledRoutes) {
+    if (route.segments.length !== segments.length) {
+      continue;
+    }
+
+    const params: Record<string, string> = {};
+    const matches = route.segments.every((segment, index) => {
+      if (segment.startsWith(':')) {
+        params[segment.slice(1)] = decodeURIComponent(segments[index]);
+        return segments[index] !== '';
+      }
+      return segment === segments[index];
+    });
+
+    if (matches) {
+      return { template: route.template, params, query };
+    }
+  }
+
+  return { template: path, params: {}, query };
+}
+
+/**
+ * Fills in the path parameters of a route template, encoding each value
+ * @param template Route template, e.g. `/tokens/:mint`
+ * @param params Values of the path parameters, keyed by name
+ * @returns The endpoint path, e.g. `/tokens/<mint>`
+ */
+export function buildPath(template: string, params: Record<string, string>): string {
+  return template.replace(/:([A-Za-z]+)/g, (_, name: string) => encodeURIComponent(params[name]));
+}
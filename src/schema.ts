@@ -0,0 +1,188 @@
+/**
+ * A problem found while validating a response
+ */
+export interface ValidationIssue {
+  /** Path of the offending value, e.g. `$.pools[0].liquidity.usd` */
+  path: string;
+  /** `missing` for absent required fields, `type` for mistyped values, `unknown` for extra fields */
+  kind: 'missing' | 'type' | 'unknown';
+  /** Description of the expected type */
+  expected?: string;
+  /** Description of the received value */
+  received?: string;
+  /** Human readable description of the issue */
+  message: string;
+}
+
+/**
+ * A runtime schema describing the expected shape of a value
+ */
+export interface Schema {
+  /** Short description of the expected type, used in messages */
+  readonly description: string;
+  /** Whether the value may be absent when used as an object property */
+  readonly optional?: boolean;
+  /**
+   * Validates a value, appending any problems to `issues`
+   * @param value The value to validate
+   * @param path Path of the value, used in issue messages
+   * @param issues Collected issues
+   */
+  check(value: unknown, path: string, issues: ValidationIssue[]): void;
+}
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const typeIssue = (path: string, expected: string, value: unknown): ValidationIssue => ({
+  path,
+  kind: 'type',
+  expected,
+  received: describeValue(value),
+  message: `${path}: expected ${expected}, received ${describeValue(value)}`,
+});
+
+const primitive = (type: 'string' | 'number' | 'boolean'): Schema => ({
+  description: type,
+  check(value, path, issues) {
+    if (typeof value !== type || (type === 'number' && isNaN(value as number))) {
+      issues.push(typeIssue(path, type, value));
+    }
+  },
+});
+
+/**
+ * Builders for runtime schemas
+ */
+export const s = {
+  string: (): Schema => primitive('string'),
+
+  number: (): Schema => primitive('number'),
+
+  boolean: (): Schema => primitive('boolean'),
+
+  unknown: (): Schema => ({
+    description: 'unknown',
+    check() {
+      // Anything goes
+    },
+  }),
+
+  literal: (...values: Array<string | number | boolean>): Schema => {
+    const description = values.map((value) => JSON.stringify(value)).join(' | ');
+    return {
+      description,
+      check(value, path, issues) {
+        if (!values.includes(value as string | number | boolean)) {
+          issues.push({
+            ...typeIssue(path, description, value),
+            received: JSON.stringify(value),
+            message: `${path}: expected ${description}, received ${JSON.stringify(value)}`,
+          });
+        }
+      },
+    };
+  },
+
+  nullable: (schema: Schema): Schema => ({
+    description: `${schema.description} | null`,
+    optional: schema.optional,
+    check(value, path, issues) {
+      if (value !== null) {
+        schema.check(value, path, issues);
+      }
+    },
+  }),
+
+  optional: (schema: Schema): Schema => ({
+    description: schema.description,
+    optional: true,
+    check(value, path, issues) {
+      if (value !== undefined) {
+        schema.check(value, path, issues);
+      }
+    },
+  }),
+
+  array: (items: Schema): Schema => ({
+    description: `${items.description}[]`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push(typeIssue(path, 'array', value));
+        return;
+      }
+      value.forEach((item, index) => items.check(item, `${path}[${index}]`, issues));
+    },
+  }),
+
+  record: (values: Schema): Schema => ({
+    description: `Record<string, ${values.description}>`,
+    check(value, path, issues) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push(typeIssue(path, 'object', value));
+        return;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        values.check(item, `${path}${formatKey(key)}`, issues);
+      }
+    },
+  }),
+
+  object: (shape: Record<string, Schema>): Schema => ({
+    description: 'object',
+    check(value, path, issues) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push(typeIssue(path, 'object', value));
+        return;
+      }
+      const record = value as Record<string, unknown>;
+
+      for (const [key, schema] of Object.entries(shape)) {
+        const fieldPath = `${path}${formatKey(key)}`;
+        if (record[key] === undefined) {
+          if (!schema.optional) {
+            issues.push({
+              path: fieldPath,
+              kind: 'missing',
+              expected: schema.description,
+              message: `${fieldPath}: missing required field (expected ${schema.description})`,
+            });
+          }
+          continue;
+        }
+        schema.check(record[key], fieldPath, issues);
+      }
+
+      for (const key of Object.keys(record)) {
+        if (!(key in shape)) {
+          const fieldPath = `${path}${formatKey(key)}`;
+          issues.push({
+            path: fieldPath,
+            kind: 'unknown',
+            received: describeValue(record[key]),
+            message: `${fieldPath}: unknown field`,
+          });
+        }
+      }
+    },
+  }),
+};
+
+function formatKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Validates a value against a schema
+ * @param schema The expected shape
+ * @param value The value to validate
+ * @returns Every issue found, empty when the value matches
+ */
+export function validate(schema: Schema, value: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  schema.check(value, '$', issues);
+  return issues;
+}
@@ -0,0 +1,441 @@
+// Runtime schemas mirroring the response interfaces in interfaces.ts
+import { Schema, s } from './schema';
+
+const num = s.number();
+const str = s.string();
+const bool = s.boolean();
+const opt = s.optional;
+
+const tokenValuePair = s.object({ quote: num, usd: num });
+
+const tokenInfo = s.object({
+  name: str,
+  symbol: str,
+  mint: str,
+  uri: opt(str),
+  decimals: num,
+  description: opt(str),
+  image: opt(str),
+  hasFileMetaData: opt(bool),
+  strictSocials: opt(
+    s.object({
+      twitter: opt(str),
+      telegram: opt(str),
+      discord: opt(str),
+      website: opt(str),
+    })
+  ),
+  showName: opt(bool),
+  twitter: opt(str),
+  telegram: opt(str),
+  website: opt(str),
+  discord: opt(str),
+  createdOn: opt(str),
+});
+
+const tokenSecurity = s.object({
+  freezeAuthority: s.nullable(str),
+  mintAuthority: s.nullable(str),
+});
+
+const poolInfo = s.object({
+  poolId: str,
+  liquidity: tokenValuePair,
+  price: tokenValuePair,
+  tokenSupply: num,
+  lpBurn: num,
+  tokenAddress: str,
+  marketCap: tokenValuePair,
+  market: str,
+  quoteToken: str,
+  decimals: num,
+  security: tokenSecurity,
+  lastUpdated: num,
+  deployer: opt(str),
+  txns: opt(s.object({ buys: num, total: num, volume: num, sells: num })),
+  curvePercentage: opt(num),
+  curve: opt(str),
+  createdAt: opt(num),
+  bundleId: opt(str),
+});
+
+const priceChangeData = s.object({ priceChangePercentage: num });
+
+const tokenEvents = s.object(
+  ['1m', '5m', '15m', '30m', '1h', '2h', '3h', '4h', '5h', '6h', '12h', '24h'].reduce(
+    (shape, timeframe) => ({ ...shape, [timeframe]: opt(priceChangeData) }),
+    {} as Record<string, Schema>
+  )
+);
+
+const tokenRisk = s.object({
+  rugged: bool,
+  risks: s.array(
+    s.object({
+      name: str,
+      description: str,
+      level: s.literal('warning', 'danger'),
+      score: num,
+    })
+  ),
+  score: num,
+  jupiterVerified: opt(bool),
+});
+
+const tokenDetailResponse = s.object({
+  token: tokenInfo,
+  pools: s.array(poolInfo),
+  events: tokenEvents,
+  risk: tokenRisk,
+  buys: num,
+  sells: num,
+  txns: num,
+  holders: opt(num),
+});
+
+const topHolder = s.object({
+  address: str,
+  amount: num,
+  percentage: num,
+  value: tokenValuePair,
+});
+
+const tokenHoldersResponse = s.object({
+  total: num,
+  accounts: s.array(
+    s.object({
+      wallet: str,
+      amount: num,
+      value: tokenValuePair,
+      percentage: num,
+    })
+  ),
+});
+
+const athPrice = s.object({ highest_price: num, timestamp: num });
+
+const deployerTokensResponse = s.object({
+  total: num,
+  tokens: s.array(
+    s.object({
+      name: str,
+      symbol: str,
+      mint: str,
+      image: opt(str),
+      decimals: num,
+      hasSocials: bool,
+      poolAddress: opt(str),
+      liquidityUsd: num,
+      marketCapUsd: num,
+      priceUsd: num,
+      lpBurn: num,
+      market: str,
+      freezeAuthority: s.nullable(str),
+      mintAuthority: s.nullable(str),
+      createdAt: num,
+      lastUpdated: num,
+      buys: num,
+      sells: num,
+      totalTransactions: num,
+    })
+  ),
+});
+
+const searchResponse = s.object({
+  status: str,
+  data: s.array(
+    s.object({
+      name: str,
+      symbol: str,
+      mint: str,
+      decimals: num,
+      image: opt(str),
+      holders: opt(num),
+      jupiter: opt(bool),
+      verified: opt(bool),
+      liquidityUsd: num,
+      marketCapUsd: num,
+      priceUsd: num,
+      lpBurn: num,
+      market: str,
+      freezeAuthority: s.nullable(str),
+      mintAuthority: s.nullable(str),
+      poolAddress: str,
+      totalBuys: num,
+      totalSells: num,
+      totalTransactions: num,
+      volume: num,
+      volume_5m: opt(num),
+      volume_15m: opt(num),
+      volume_30m: opt(num),
+      volume_1h: opt(num),
+      volume_6h: opt(num),
+      volume_12h: opt(num),
+      volume_24h: opt(num),
+    })
+  ),
+});
+
+const tokenOverview = s.object({
+  latest: s.array(tokenDetailResponse),
+  graduating: s.array(tokenDetailResponse),
+  graduated: s.array(tokenDetailResponse),
+});
+
+const priceData = s.object({
+  price: num,
+  liquidity: num,
+  marketCap: num,
+  lastUpdated: num,
+});
+
+const priceHistoryData = s.object({
+  current: num,
+  '3d': opt(num),
+  '5d': opt(num),
+  '7d': opt(num),
+  '14d': opt(num),
+  '30d': opt(num),
+});
+
+const priceTimestampData = s.object({
+  price: num,
+  timestamp: num,
+  timestamp_unix: num,
+  pool: str,
+});
+
+const pricePoint = s.object({ price: num, time: num });
+
+const priceRangeData = s.object({
+  token: str,
+  price: s.object({ lowest: pricePoint, highest: pricePoint }),
+});
+
+const multiPriceResponse = s.record(priceData);
+
+const walletBasicResponse = s.object({
+  tokens: s.array(
+    s.object({
+      address: str,
+      balance: num,
+      value: num,
+      price: tokenValuePair,
+      marketCap: tokenValuePair,
+      liquidity: tokenValuePair,
+    })
+  ),
+  total: num,
+  totalSol: num,
+});
+
+const tradeTokenInfo = s.object({
+  address: str,
+  amount: num,
+  token: s.object({
+    name: str,
+    symbol: str,
+    image: opt(str),
+    decimals: num,
+  }),
+});
+
+const tradesResponse = s.object({
+  trades: s.array(
+    s.object({
+      tx: str,
+      from: opt(tradeTokenInfo),
+      to: opt(tradeTokenInfo),
+      amount: opt(num),
+      priceUsd: opt(num),
+      volume: opt(num),
+      volumeSol: opt(num),
+      type: opt(str),
+      wallet: str,
+      time: num,
+      program: str,
+      pools: opt(s.array(str)),
+      token: opt(s.object({ from: tradeTokenInfo, to: tradeTokenInfo })),
+    })
+  ),
+  nextCursor: opt(num),
+  hasNextPage: opt(bool),
+});
+
+const walletResponse = s.object({
+  tokens: s.array(
+    s.object({
+      token: tokenInfo,
+      pools: opt(s.array(poolInfo)),
+      events: opt(tokenEvents),
+      risk: opt(tokenRisk),
+      balance: num,
+      value: num,
+    })
+  ),
+  total: num,
+  totalSol: num,
+  timestamp: str,
+});
+
+const chartResponse = s.object({
+  oclhv: s.array(
+    s.object({
+      open: num,
+      close: num,
+      low: num,
+      high: num,
+      volume: num,
+      time: num,
+    })
+  ),
+});
+
+const holdersChartResponse = s.object({
+  holders: s.array(s.object({ holders: num, time: num })),
+});
+
+const pnlDataShape: Record<string, Schema> = {
+  holding: num,
+  held: num,
+  sold: num,
+  realized: num,
+  unrealized: num,
+  total: num,
+  total_sold: num,
+  total_invested: num,
+  average_buy_amount: num,
+  current_value: num,
+  cost_basis: num,
+  sold_usd: opt(num),
+  first_buy_time: opt(num),
+  last_buy_time: opt(num),
+  last_sell_time: opt(num),
+  last_trade_time: opt(num),
+  buy_transactions: opt(num),
+  sell_transactions: opt(num),
+  total_transactions: opt(num),
+};
+
+const pnlSummary = s.object({
+  realized: num,
+  unrealized: num,
+  total: num,
+  totalInvested: num,
+  averageBuyAmount: num,
+  totalWins: num,
+  totalLosses: num,
+  winPercentage: num,
+  lossPercentage: num,
+  neutralPercentage: opt(num),
+});
+
+const pnlResponse = s.object({
+  tokens: s.record(s.object(pnlDataShape)),
+  summary: pnlSummary,
+});
+
+const tokenPnLResponse = s.object(pnlDataShape);
+
+const firstBuyerData = s.object({
+  ...pnlDataShape,
+  wallet: str,
+  first_buy_time: num,
+  last_transaction_time: num,
+});
+
+const topTradersResponse = s.object({
+  wallets: s.array(s.object({ wallet: str, summary: pnlSummary })),
+});
+
+const timeframeStats = s.object({
+  buyers: num,
+  sellers: num,
+  volume: s.object({ buys: num, sells: num, total: num }),
+  transactions: num,
+  buys: num,
+  sells: num,
+  wallets: num,
+  price: num,
+  priceChangePercentage: num,
+});
+
+const tokenStats = s.object(
+  ['1m', '5m', '15m', '30m', '1h', '4h', '24h'].reduce(
+    (shape, timeframe) => ({ ...shape, [timeframe]: opt(timeframeStats) }),
+    {} as Record<string, Schema>
+  )
+);
+
+/**
+ * Schemas for every response type in interfaces.ts
+ */
+export const schemas = {
+  TokenDetailResponse: tokenDetailResponse,
+  TokenHoldersResponse: tokenHoldersResponse,
+  TopHolder: topHolder,
+  AthPrice: athPrice,
+  DeployerTokensResponse: deployerTokensResponse,
+  SearchResponse: searchResponse,
+  TokenOverview: tokenOverview,
+  PriceData: priceData,
+  PriceHistoryData: priceHistoryData,
+  PriceTimestampData: priceTimestampData,
+  PriceRangeData: priceRangeData,
+  MultiPriceResponse: multiPriceResponse,
+  WalletBasicResponse: walletBasicResponse,
+  TradesResponse: tradesResponse,
+  WalletResponse: walletResponse,
+  ChartResponse: chartResponse,
+  HoldersChartResponse: holdersChartResponse,
+  PnLResponse: pnlResponse,
+  TokenPnLResponse: tokenPnLResponse,
+  FirstBuyerData: firstBuyerData,
+  TopTradersResponse: topTradersResponse,
+  TokenStats: tokenStats,
+};
+
+/**
+ * Expected response schema for each route template
+ */
+export const RESPONSE_SCHEMAS: Record<string, Schema> = {
+  '/tokens/multi/all': tokenOverview,
+  '/tokens/multi/graduated': s.array(tokenDetailResponse),
+  '/tokens/multi': s.array(tokenDetailResponse),
+  '/tokens/latest': s.array(tokenDetailResponse),
+  '/tokens/trending': s.array(tokenDetailResponse),
+  '/tokens/trending/:timeframe': s.array(tokenDetailResponse),
+  '/tokens/volume': s.array(tokenDetailResponse),
+  '/tokens/volume/:timeframe': s.array(tokenDetailResponse),
+  '/tokens/by-pool/:pool': tokenDetailResponse,
+  '/tokens/:mint/holders/top': s.array(topHolder),
+  '/tokens/:mint/holders': tokenHoldersResponse,
+  '/tokens/:mint/ath': athPrice,
+  '/tokens/:mint': tokenDetailResponse,
+  '/deployer/:wallet': deployerTokensResponse,
+  '/search': searchResponse,
+  '/price/history/timestamp': priceTimestampData,
+  '/price/history/range': priceRangeData,
+  '/price/history': priceHistoryData,
+  '/price/multi': multiPriceResponse,
+  '/price': priceData,
+  '/wallet/:owner/basic': walletBasicResponse,
+  '/wallet/:owner/page/:page': walletResponse,
+  '/wallet/:owner/trades': tradesResponse,
+  '/wallet/:owner': walletResponse,
+  '/trades/:mint/by-wallet/:owner': tradesResponse,
+  '/trades/:mint/:pool/:owner': tradesResponse,
+  '/trades/:mint/:pool': tradesResponse,
+  '/trades/:mint': tradesResponse,
+  '/chart/:mint/:pool': chartResponse,
+  '/chart/:mint': chartResponse,
+  '/holders/chart/:mint': holdersChartResponse,
+  '/pnl/:wallet/:mint': tokenPnLResponse,
+  '/pnl/:wallet': pnlResponse,
+  '/first-buyers/:mint': s.array(firstBuyerData),
+  '/top-traders/all/:page': topTradersResponse,
+  '/top-traders/all': topTradersResponse,
+  '/top-traders/:mint': s.array(firstBuyerData),
+  '/stats/:mint/:pool': tokenStats,
+  '/stats/:mint': tokenStats,
+};
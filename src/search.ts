@@ -0,0 +1,394 @@
+// Fluent builder for token search queries
+import { ValidationError } from './errors';
+import { CallOptions } from './data-api';
+import { PaginationOptions, Paginator } from './pagination';
+import { VOLUME_TIMEFRAMES, VolumeTimeframe } from './timeframes';
+import { SearchParams, SearchResponse, SearchResult, SearchStatus, SortOrder } from './interfaces';
+
+/**
+ * Fields search results can be sorted by
+ */
+export const SEARCH_SORT_FIELDS = [
+  'createdAt',
+  'liquidityUsd',
+  'marketCapUsd',
+  'priceUsd',
+  'lpBurn',
+  'holders',
+  'totalBuys',
+  'totalSells',
+  'totalTransactions',
+  'volume',
+  'volume_5m',
+  'volume_15m',
+  'volume_30m',
+  'volume_1h',
+  'volume_6h',
+  'volume_12h',
+  'volume_24h',
+] as const;
+
+/**
+ * Markets tokens can be filtered by
+ */
+export const SEARCH_MARKETS = [
+  'pumpfun',
+  'pumpfun-amm',
+  'moonshot',
+  'raydium',
+  'raydium-cpmm',
+  'raydium-clmm',
+  'raydium-launchpad',
+  'meteora-dlmm',
+  'meteora-dyn',
+  'meteora-dyn-v2',
+  'meteora-dbc',
+  'orca',
+  'boop',
+] as const;
+
+export type SearchSortField = (typeof SEARCH_SORT_FIELDS)[number];
+export type SearchMarket = (typeof SEARCH_MARKETS)[number];
+
+const SORT_ORDERS: readonly SortOrder[] = ['asc', 'desc'];
+const STATUSES: readonly SearchStatus[] = ['default', 'graduating', 'graduated'];
+
+/**
+ * Range filters, as pairs of minimum and maximum parameters
+ */
+const RANGES: [keyof SearchParams, keyof SearchParams][] = [
+  ['minCreatedAt', 'maxCreatedAt'],
+  ['minLiquidity', 'maxLiquidity'],
+  ['minMarketCap', 'maxMarketCap'],
+  ['minVolume', 'maxVolume'],
+  ['minBuys', 'maxBuys'],
+  ['minSells', 'maxSells'],
+  ['minTotalTransactions', 'maxTotalTransactions'],
+];
+
+const assertOneOf = (values: readonly string[], value: string | undefined, paramName: string): void => {
+  if (value !== undefined && !values.includes(value)) {
+    throw new ValidationError(`Invalid ${paramName}: ${value}. Must be one of: ${values.join(', ')}`);
+  }
+};
+
+/**
+ * Validates search parameters: enum values, numeric filters and min/max ranges
+ * @param params The search parameters
+ * @throws ValidationError if a parameter is invalid
+ */
+export function validateSearchParams(params: SearchParams): void {
+  assertOneOf(SEARCH_SORT_FIELDS, params.sortBy, 'sortBy');
+  assertOneOf(SORT_ORDERS, params.sortOrder, 'sortOrder');
+  assertOneOf(SEARCH_MARKETS, params.market, 'market');
+  assertOneOf(STATUSES, params.status, 'status');
+  assertOneOf(VOLUME_TIMEFRAMES, params.volumeTimeframe, 'volumeTimeframe');
+
+  for (const [key, value] of Object.entries(params)) {
+    if (typeof value === 'number' && (!isFinite(value) || value < 0)) {
+      throw new ValidationError(`Invalid ${key}: ${value}. Must be a non-negative number`);
+    }
+  }
+  if (params.page !== undefined && (!Number.isInteger(params.page) || params.page < 1)) {
+    throw new ValidationError(`Invalid page: ${params.page}. Must be a positive integer`);
+  }
+  if (params.limit !== undefined && (!Number.isInteger(params.limit) || params.limit < 1)) {
+    throw new ValidationError(`Invalid limit: ${params.limit}. Must be a positive integer`);
+  }
+  if (params.lpBurn !== undefined && params.lpBurn > 100) {
+    throw new ValidationError(`Invalid lpBurn: ${params.lpBurn}. Must be a percentage between 0 and 100`);
+  }
+
+  for (const [minKey, maxKey] of RANGES) {
+    const min = params[minKey] as number | undefined;
+    const max = params[maxKey] as number | undefined;
+    if (min !== undefined && max !== undefined && min > max) {
+      throw new ValidationError(`Invalid range: ${minKey} (${min}) is greater than ${maxKey} (${max})`);
+    }
+  }
+}
+
+/**
+ * Methods the builder uses to run the search
+ */
+export interface SearchExecutor {
+  searchTokens(params: SearchParams, options?: CallOptions): Promise<SearchResponse>;
+  iterateSearch(params: SearchParams, options?: PaginationOptions<SearchResult>): Paginator<SearchResult>;
+}
+
+/**
+ * Fluent, typed builder for `searchTokens`. Create one with `client.search()`.
+ */
+export class SearchBuilder {
+  private params: SearchParams = {};
+
+  /**
+   * @param executor Client that runs the search
+   */
+  constructor(private executor: SearchExecutor) {}
+
+  /**
+   * Searches by name, symbol or address
+   * @param text Search text
+   * @returns Reference to this builder for chaining
+   */
+  query(text: string): this {
+    return this.set({ query: text });
+  }
+
+  /**
+   * Sets the page to request
+   * @param page Page number, starting at 1
+   * @returns Reference to this builder for chaining
+   */
+  page(page: number): this {
+    return this.set({ page });
+  }
+
+  /**
+   * Sets the number of results per page
+   * @param limit Results per page
+   * @returns Reference to this builder for chaining
+   */
+  limit(limit: number): this {
+    return this.set({ limit });
+  }
+
+  /**
+   * Sorts the results
+   * @param field Field to sort by
+   * @param order Sort order (default: desc)
+   * @returns Reference to this builder for chaining
+   */
+  sortBy(field: SearchSortField, order: SortOrder = 'desc'): this {
+    return this.set({ sortBy: field, sortOrder: order });
+  }
+
+  /**
+   * Returns every pool of each token instead of only the main one
+   * @param enabled Whether to return all pools (default: true)
+   * @returns Reference to this builder for chaining
+   */
+  showAllPools(enabled = true): this {
+    return this.set({ showAllPools: enabled });
+  }
+
+  /**
+   * Includes price change percentages in the results
+   * @param enabled Whether to include price changes (default: true)
+   * @returns Reference to this builder for chaining
+   */
+  showPriceChanges(enabled = true): this {
+    return this.set({ showPriceChanges: enabled });
+  }
+
+  /**
+   * Only returns tokens created at or after this time
+   * @param timestamp Unix timestamp in milliseconds
+   * @returns Reference to this builder for chaining
+   */
+  minCreatedAt(timestamp: number): this {
+    return this.set({ minCreatedAt: timestamp });
+  }
+
+  /**
+   * Only returns tokens created at or before this time
+   * @param timestamp Unix timestamp in milliseconds
+   * @returns Reference to this builder for chaining
+   */
+  maxCreatedAt(timestamp: number): this {
+    return this.set({ maxCreatedAt: timestamp });
+  }
+
+  /**
+   * @param usd Minimum liquidity in USD
+   * @returns Reference to this builder for chaining
+   */
+  minLiquidity(usd: number): this {
+    return this.set({ minLiquidity: usd });
+  }
+
+  /**
+   * @param usd Maximum liquidity in USD
+   * @returns Reference to this builder for chaining
+   */
+  maxLiquidity(usd: number): this {
+    return this.set({ maxLiquidity: usd });
+  }
+
+  /**
+   * @param usd Minimum market cap in USD
+   * @returns Reference to this builder for chaining
+   */
+  minMarketCap(usd: number): this {
+    return this.set({ minMarketCap: usd });
+  }
+
+  /**
+   * @param usd Maximum market cap in USD
+   * @returns Reference to this builder for chaining
+   */
+  maxMarketCap(usd: number): this {
+    return this.set({ maxMarketCap: usd });
+  }
+
+  /**
+   * @param usd Minimum volume in USD
+   * @param timeframe Timeframe the volume filters apply to
+   * @returns Reference to this builder for chaining
+   */
+  minVolume(usd: number, timeframe?: VolumeTimeframe): this {
+    return this.set({ minVolume: usd, ...(timeframe && { volumeTimeframe: timeframe }) });
+  }
+
+  /**
+   * @param usd Maximum volume in USD
+   * @param timeframe Timeframe the volume filters apply to
+   * @returns Reference to this builder for chaining
+   */
+  maxVolume(usd: number, timeframe?: VolumeTimeframe): this {
+    return this.set({ maxVolume: usd, ...(timeframe && { volumeTimeframe: timeframe }) });
+  }
+
+  /**
+   * @param count Minimum number of buys
+   * @returns Reference to this builder for chaining
+   */
+  minBuys(count: number): this {
+    return this.set({ minBuys: count });
+  }
+
+  /**
+   * @param count Maximum number of buys
+   * @returns Reference to this builder for chaining
+   */
+  maxBuys(count: number): this {
+    return this.set({ maxBuys: count });
+  }
+
+  /**
+   * @param count Minimum number of sells
+   * @returns Reference to this builder for chaining
+   */
+  minSells(count: number): this {
+    return this.set({ minSells: count });
+  }
+
+  /**
+   * @param count Maximum number of sells
+   * @returns Reference to this builder for chaining
+   */
+  maxSells(count: number): this {
+    return this.set({ maxSells: count });
+  }
+
+  /**
+   * @param count Minimum number of transactions
+   * @returns Reference to this builder for chaining
+   */
+  minTotalTransactions(count: number): this {
+    return this.set({ minTotalTransactions: count });
+  }
+
+  /**
+   * @param count Maximum number of transactions
+   * @returns Reference to this builder for chaining
+   */
+  maxTotalTransactions(count: number): this {
+    return this.set({ maxTotalTransactions: count });
+  }
+
+  /**
+   * @param percentage Minimum LP burn percentage (0-100)
+   * @returns Reference to this builder for chaining
+   */
+  lpBurn(percentage: number): this {
+    return this.set({ lpBurn: percentage });
+  }
+
+  /**
+   * @param market Market the token trades on
+   * @returns Reference to this builder for chaining
+   */
+  market(market: SearchMarket): this {
+    return this.set({ market });
+  }
+
+  /**
+   * @param status Token lifecycle status
+   * @returns Reference to this builder for chaining
+   */
+  status(status: SearchStatus): this {
+    return this.set({ status });
+  }
+
+  /**
+   * @param address Freeze authority address
+   * @returns Reference to this builder for chaining
+   */
+  freezeAuthority(address: string): this {
+    return this.set({ freezeAuthority: address });
+  }
+
+  /**
+   * @param address Mint authority address
+   * @returns Reference to this builder for chaining
+   */
+  mintAuthority(address: string): this {
+    return this.set({ mintAuthority: address });
+  }
+
+  /**
+   * @param address Deployer wallet address
+   * @returns Reference to this builder for chaining
+   */
+  deployer(address: string): this {
+    return this.set({ deployer: address });
+  }
+
+  /**
+   * Merges raw search parameters into the query
+   * @param params Search parameters
+   * @returns Reference to this builder for chaining
+   */
+  where(params: SearchParams): this {
+    return this.set(params);
+  }
+
+  /**
+   * Validates and returns the search parameters
+   * @returns A copy of the parameters
+   * @throws ValidationError if a parameter is invalid or a range is empty
+   */
+  build(): SearchParams {
+    validateSearchParams(this.params);
+    return { ...this.params };
+  }
+
+  /**
+   * Runs the search for a single page
+   * @param options Per-call options such as an abort signal or timeout
+   * @returns Search results
+   */
+  execute(options?: CallOptions): Promise<SearchResponse> {
+    return this.executor.searchTokens(this.build(), options);
+  }
+
+  /**
+   * Iterates over the results of every page, starting at the configured page
+   * @param options Limits, stop conditions and per-call options
+   * @returns An async iterable of search results
+   */
+  iterate(options?: PaginationOptions<SearchResult>): Paginator<SearchResult> {
+    return this.executor.iterateSearch(this.build(), options);
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<SearchResult> {
+    return this.iterate()[Symbol.asyncIterator]();
+  }
+
+  private set(params: SearchParams): this {
+    this.params = { ...this.params, ...params };
+    return this;
+  }
+}
@@ -0,0 +1,202 @@
+import {
+  Datastream,
+  DatastreamConfig,
+  WebSocketCloseEventLike,
+  WebSocketConstructor,
+  WebSocketEventLike,
+  WebSocketHandler,
+  WebSocketLike,
+  WebSocketMessageEventLike,
+} from '../datastream';
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 3;
+
+/**
+ * A client message received by the fake server
+ */
+export interface FakeSocketMessage {
+  type: string;
+  room?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * One connection to the fake Datastream server
+ */
+export class FakeWebSocket implements WebSocketLike {
+  readyState = CONNECTING;
+  onopen: WebSocketHandler<WebSocketEventLike> | null = null;
+  onmessage: WebSocketHandler<WebSocketMessageEventLike> | null = null;
+  onclose: WebSocketHandler<WebSocketCloseEventLike> | null = null;
+  onerror: WebSocketHandler<unknown> | null = null;
+
+  /** Rooms this connection has joined */
+  readonly rooms = new Set<string>();
+  /** Every message sent by the client on this connection */
+  readonly sent: FakeSocketMessage[] = [];
+
+  constructor(readonly url: string, private server: FakeDatastreamServer) {}
+
+  send(data: string): void {
+    if (this.readyState !== OPEN) {
+      throw new Error('WebSocket is not open');
+    }
+    const message = JSON.parse(data) as FakeSocketMessage;
+    this.sent.push(message);
+    if (message.type === 'join' && message.room) {
+      this.rooms.add(message.room);
+    } else if (message.type === 'leave' && message.room) {
+      this.rooms.delete(message.room);
+    }
+  }
+
+  close(): void {
+    if (this.readyState === CLOSED) {
+      return;
+    }
+    this.readyState = CLOSED;
+    this.rooms.clear();
+    this.server.remove(this);
+    if (this.onclose) this.onclose({ code: 1000 });
+  }
+
+  /** @internal Called by the server once the connection is accepted */
+  open(): void {
+    this.readyState = OPEN;
+    if (this.onopen) this.onopen({});
+  }
+
+  /** @internal Called by the server to refuse the connection */
+  refuse(): void {
+    this.readyState = CLOSED;
+    this.server.remove(this);
+    if (this.onerror) this.onerror(new Error('Connection refused'));
+  }
+
+  /**
+   * Delivers a raw frame to the client
+   * @param data The frame, serialized as JSON unless it is a string
+   */
+  receive(data: unknown): void {
+    if (this.readyState === OPEN && this.onmessage) {
+      this.onmessage({ data: typeof data === 'string' ? data : JSON.stringify(data) });
+    }
+  }
+}
+
+/**
+ * In-process fake of the Datastream WebSocket server speaking the join/leave/message protocol.
+ * Pass `server.WebSocket` as the Datastream's WebSocket implementation.
+ */
+export class FakeDatastreamServer {
+  /** WebSocket constructor whose connections are served by this server */
+  readonly WebSocket: WebSocketConstructor;
+  /** Reject new connections while true, to simulate an outage */
+  refuseConnections = false;
+  private sockets = new Set<FakeWebSocket>();
+
+  constructor() {
+    this.WebSocket = socketClass(this);
+  }
+
+  /**
+   * Open connections
+   */
+  get connections(): FakeWebSocket[] {
+    return Array.from(this.sockets);
+  }
+
+  /**
+   * Rooms joined by at least one open connection
+   */
+  get rooms(): string[] {
+    const rooms = new Set<string>();
+    this.sockets.forEach((socket) => socket.rooms.forEach((room) => rooms.add(room)));
+    return Array.from(rooms);
+  }
+
+  /**
+   * Whether any open connection has joined a room
+   * @param room The room name
+   */
+  isSubscribed(room: string): boolean {
+    return this.rooms.includes(room);
+  }
+
+  /**
+   * Publishes a message to every connection that joined the room
+   * @param room The room name, e.g. `latest` or `transaction:<mint>`
+   * @param data The message payload
+   * @returns Number of connections the message was delivered to
+   */
+  publish(room: string, data: unknown): number {
+    let delivered = 0;
+    this.sockets.forEach((socket) => {
+      if (socket.rooms.has(room)) {
+        socket.receive({ type: 'message', room, data });
+        delivered++;
+      }
+    });
+    return delivered;
+  }
+
+  /**
+   * Closes every connection from the server side, e.g. to test reconnection
+   */
+  disconnectAll(): void {
+    this.connections.forEach((socket) => socket.close());
+  }
+
+  /**
+   * Resolves once every pending connection has been accepted
+   */
+  async flush(): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  /** @internal */
+  accept(socket: FakeWebSocket): void {
+    this.sockets.add(socket);
+    // Open asynchronously like a real WebSocket, after the caller attached its handlers
+    Promise.resolve().then(() => {
+      if (this.refuseConnections) {
+        socket.refuse();
+      } else if (socket.readyState === CONNECTING) {
+        socket.open();
+      }
+    });
+  }
+
+  /** @internal */
+  remove(socket: FakeWebSocket): void {
+    this.sockets.delete(socket);
+  }
+}
+
+function socketClass(server: FakeDatastreamServer): WebSocketConstructor {
+  return class extends FakeWebSocket {
+    constructor(url: string) {
+      super(url, server);
+      server.accept(this);
+    }
+  };
+}
+
+/**
+ * Creates a Datastream wired to a new fake server
+ * @param config Datastream options, e.g. `{ autoReconnect: false }`
+ * @returns The datastream and the fake server it connects to
+ */
+export function createMockDatastream(
+  config: Partial<DatastreamConfig> = {}
+): { datastream: Datastream; server: FakeDatastreamServer } {
+  const server = new FakeDatastreamServer();
+  const datastream = new Datastream({
+    wsUrl: 'wss://datastream.solanatracker.test',
+    ...config,
+    WebSocket: server.WebSocket,
+  });
+  return { datastream, server };
+}
@@ -0,0 +1,508 @@
+// Fixture builders returning valid, deterministic instances of every response interface.
+// Each builder takes overrides that are shallow-merged over the defaults.
+import {
+  AthPrice,
+  ChartResponse,
+  DeployerToken,
+  DeployerTokensResponse,
+  FirstBuyerData,
+  Holder,
+  HolderChartData,
+  HoldersChartResponse,
+  MultiPriceResponse,
+  OHLCVData,
+  PnLData,
+  PnLResponse,
+  PnLSummary,
+  PoolInfo,
+  PriceData,
+  PriceHistoryData,
+  PriceRangeData,
+  PriceTimestampData,
+  SearchResponse,
+  SearchResult,
+  TimeframeStats,
+  TokenDetailResponse,
+  TokenHoldersResponse,
+  TokenInfo,
+  TokenOverview,
+  TokenPnLResponse,
+  TokenRisk,
+  TokenStats,
+  TopHolder,
+  TopTrader,
+  TopTradersResponse,
+  TradeTransaction,
+  TradesResponse,
+  WalletBasicResponse,
+  WalletResponse,
+  WalletTokenData,
+  WalletTokenDetail,
+} from '../interfaces';
+import { PUBLIC_KEY_LENGTH, encodeBase58 } from '../address';
+
+/** Fixed reference time of the fixtures, Unix timestamp in milliseconds */
+export const FIXTURE_TIME = 1700000000000;
+
+/** Wrapped SOL mint, used as the quote token of fixture pools */
+export const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+/**
+ * Creates deterministic pseudo-random bytes
+ * @param seed Any string or number, the same seed always gives the same bytes
+ * @param length Number of bytes
+ */
+function seededBytes(seed: string | number, length: number): Uint8Array {
+  let hash = 2166136261;
+  for (const char of String(seed)) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 16777619) >>> 0;
+  }
+
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    hash = Math.imul(hash ^ (hash >>> 15), 2246822507) >>> 0;
+    hash = (hash + i) >>> 0;
+    bytes[i] = hash & 0xff;
+  }
+  return bytes;
+}
+
+/**
+ * Creates a deterministic, valid base58 address encoding 32 bytes
+ * @param seed Any string or number, the same seed always gives the same address
+ * @returns The address
+ */
+export function fakeAddress(seed: string | number = 0): string {
+  return encodeBase58(seededBytes(seed, PUBLIC_KEY_LENGTH));
+}
+
+/**
+ * Creates a deterministic transaction signature
+ * @param seed Any string or number
+ * @returns A base58 string encoding 64 bytes
+ */
+export function fakeSignature(seed: string | number = 0): string {
+  return encodeBase58(seededBytes(`signature:${seed}`, 64));
+}
+
+export function buildTokenInfo(overrides: Partial<TokenInfo> = {}): TokenInfo {
+  return {
+    name: 'Test Token',
+    symbol: 'TEST',
+    mint: fakeAddress('mint'),
+    uri: 'https://example.com/token.json',
+    decimals: 6,
+    description: 'A token used in tests',
+    image: 'https://example.com/token.png',
+    hasFileMetaData: true,
+    createdOn: 'https://pump.fun',
+    ...overrides,
+  };
+}
+
+export function buildPoolInfo(overrides: Partial<PoolInfo> = {}): PoolInfo {
+  return {
+    poolId: fakeAddress('pool'),
+    liquidity: { quote: 250, usd: 50000 },
+    price: { quote: 0.0000005, usd: 0.0001 },
+    tokenSupply: 1000000000,
+    lpBurn: 100,
+    tokenAddress: fakeAddress('mint'),
+    marketCap: { quote: 500, usd: 100000 },
+    market: 'raydium',
+    quoteToken: SOL_MINT,
+    decimals: 6,
+    security: { freezeAuthority: null, mintAuthority: null },
+    lastUpdated: FIXTURE_TIME,
+    deployer: fakeAddress('deployer'),
+    txns: { buys: 120, total: 200, volume: 25000, sells: 80 },
+    createdAt: FIXTURE_TIME - 86400000,
+    ...overrides,
+  };
+}
+
+export function buildTokenRisk(overrides: Partial<TokenRisk> = {}): TokenRisk {
+  return {
+    rugged: false,
+    risks: [],
+    score: 1,
+    jupiterVerified: false,
+    ...overrides,
+  };
+}
+
+export function buildTokenDetail(overrides: Partial<TokenDetailResponse> = {}): TokenDetailResponse {
+  const token = overrides.token || buildTokenInfo();
+  return {
+    token,
+    pools: [buildPoolInfo({ tokenAddress: token.mint })],
+    events: {
+      '1h': { priceChangePercentage: 2.5 },
+      '24h': { priceChangePercentage: -4.2 },
+    },
+    risk: buildTokenRisk(),
+    buys: 120,
+    sells: 80,
+    txns: 200,
+    holders: 1500,
+    ...overrides,
+  };
+}
+
+export function buildHolder(overrides: Partial<Holder> = {}): Holder {
+  return {
+    wallet: fakeAddress('holder'),
+    amount: 1000000,
+    value: { quote: 0.5, usd: 100 },
+    percentage: 0.1,
+    ...overrides,
+  };
+}
+
+export function buildTokenHolders(overrides: Partial<TokenHoldersResponse> = {}): TokenHoldersResponse {
+  const accounts =
+    overrides.accounts || [0, 1, 2].map((i) => buildHolder({ wallet: fakeAddress(`holder-${i}`) }));
+  return { total: accounts.length, accounts, ...overrides };
+}
+
+export function buildTopHolder(overrides: Partial<TopHolder> = {}): TopHolder {
+  return {
+    address: fakeAddress('top-holder'),
+    amount: 50000000,
+    percentage: 5,
+    value: { quote: 25, usd: 5000 },
+    ...overrides,
+  };
+}
+
+export function buildAthPrice(overrides: Partial<AthPrice> = {}): AthPrice {
+  return { highest_price: 0.0005, timestamp: FIXTURE_TIME - 3600000, ...overrides };
+}
+
+export function buildDeployerToken(overrides: Partial<DeployerToken> = {}): DeployerToken {
+  return {
+    name: 'Test Token',
+    symbol: 'TEST',
+    mint: fakeAddress('mint'),
+    image: 'https://example.com/token.png',
+    decimals: 6,
+    hasSocials: false,
+    poolAddress: fakeAddress('pool'),
+    liquidityUsd: 50000,
+    marketCapUsd: 100000,
+    priceUsd: 0.0001,
+    lpBurn: 100,
+    market: 'raydium',
+    freezeAuthority: null,
+    mintAuthority: null,
+    createdAt: FIXTURE_TIME - 86400000,
+    lastUpdated: FIXTURE_TIME,
+    buys: 120,
+    sells: 80,
+    totalTransactions: 200,
+    ...overrides,
+  };
+}
+
+export function buildDeployerTokens(overrides: Partial<DeployerTokensResponse> = {}): DeployerTokensResponse {
+  const tokens = overrides.tokens || [buildDeployerToken()];
+  return { total: tokens.length, tokens, ...overrides };
+}
+
+export function buildSearchResult(overrides: Partial<SearchResult> = {}): SearchResult {
+  return {
+    name: 'Test Token',
+    symbol: 'TEST',
+    mint: fakeAddress('mint'),
+    decimals: 6,
+    image: 'https://example.com/token.png',
+    holders: 1500,
+    jupiter: false,
+    verified: false,
+    liquidityUsd: 50000,
+    marketCapUsd: 100000,
+    priceUsd: 0.0001,
+    lpBurn: 100,
+    market: 'raydium',
+    freezeAuthority: null,
+    mintAuthority: null,
+    poolAddress: fakeAddress('pool'),
+    totalBuys: 120,
+    totalSells: 80,
+    totalTransactions: 200,
+    volume: 25000,
+    volume_24h: 25000,
+    ...overrides,
+  };
+}
+
+export function buildSearchResponse(overrides: Partial<SearchResponse> = {}): SearchResponse {
+  return { status: 'success', data: [buildSearchResult()], ...overrides };
+}
+
+export function buildTokenOverview(overrides: Partial<TokenOverview> = {}): TokenOverview {
+  return {
+    latest: [buildTokenDetail()],
+    graduating: [buildTokenDetail()],
+    graduated: [buildTokenDetail()],
+    ...overrides,
+  };
+}
+
+export function buildPriceData(overrides: Partial<PriceData> = {}): PriceData {
+  return { price: 0.0001, liquidity: 50000, marketCap: 100000, lastUpdated: FIXTURE_TIME, ...overrides };
+}
+
+export function buildPriceHistory(overrides: Partial<PriceHistoryData> = {}): PriceHistoryData {
+  return {
+    current: 0.0001,
+    '3d': 0.00009,
+    '5d': 0.00008,
+    '7d': 0.00007,
+    '14d': 0.00005,
+    '30d': 0.00002,
+    ...overrides,
+  };
+}
+
+export function buildPriceTimestamp(overrides: Partial<PriceTimestampData> = {}): PriceTimestampData {
+  return {
+    price: 0.0001,
+    timestamp: FIXTURE_TIME,
+    timestamp_unix: FIXTURE_TIME / 1000,
+    pool: fakeAddress('pool'),
+    ...overrides,
+  };
+}
+
+export function buildPriceRange(overrides: Partial<PriceRangeData> = {}): PriceRangeData {
+  return {
+    token: fakeAddress('mint'),
+    price: {
+      lowest: { price: 0.00005, time: FIXTURE_TIME / 1000 - 3600 },
+      highest: { price: 0.0002, time: FIXTURE_TIME / 1000 - 600 },
+    },
+    ...overrides,
+  };
+}
+
+/**
+ * Builds a multi price response with an entry for every address
+ * @param tokenAddresses Token addresses to include
+ * @param overrides Price data applied to every entry
+ */
+export function buildMultiPrice(tokenAddresses: string[], overrides: Partial<PriceData> = {}): MultiPriceResponse {
+  const prices: MultiPriceResponse = {};
+  for (const address of tokenAddresses) {
+    prices[address] = buildPriceData(overrides);
+  }
+  return prices;
+}
+
+export function buildWalletTokenData(overrides: Partial<WalletTokenData> = {}): WalletTokenData {
+  return {
+    address: fakeAddress('mint'),
+    balance: 1000000,
+    value: 100,
+    price: { quote: 0.0000005, usd: 0.0001 },
+    marketCap: { quote: 500, usd: 100000 },
+    liquidity: { quote: 250, usd: 50000 },
+    ...overrides,
+  };
+}
+
+export function buildWalletBasic(overrides: Partial<WalletBasicResponse> = {}): WalletBasicResponse {
+  return { tokens: [buildWalletTokenData()], total: 100, totalSol: 0.5, ...overrides };
+}
+
+export function buildWalletTokenDetail(overrides: Partial<WalletTokenDetail> = {}): WalletTokenDetail {
+  const token = overrides.token || buildTokenInfo();
+  return {
+    token,
+    pools: [buildPoolInfo({ tokenAddress: token.mint })],
+    events: {},
+    risk: buildTokenRisk(),
+    balance: 1000000,
+    value: 100,
+    ...overrides,
+  };
+}
+
+export function buildWallet(overrides: Partial<WalletResponse> = {}): WalletResponse {
+  return {
+    tokens: [buildWalletTokenDetail()],
+    total: 100,
+    totalSol: 0.5,
+    timestamp: new Date(FIXTURE_TIME).toISOString(),
+    ...overrides,
+  };
+}
+
+export function buildTrade(overrides: Partial<TradeTransaction> = {}): TradeTransaction {
+  return {
+    tx: fakeSignature('trade'),
+    amount: 1000000,
+    priceUsd: 0.0001,
+    volume: 100,
+    volumeSol: 0.5,
+    type: 'buy',
+    wallet: fakeAddress('trader'),
+    time: FIXTURE_TIME,
+    program: 'raydium',
+    pools: [fakeAddress('pool')],
+    ...overrides,
+  };
+}
+
+/**
+ * Builds a page of trades, one second apart and newest first
+ * @param overrides Response fields, `trades` replaces the generated trades
+ * @param count Number of trades to generate
+ */
+export function buildTrades(overrides: Partial<TradesResponse> = {}, count = 3): TradesResponse {
+  const trades = Array.from({ length: count }, (_, i) =>
+    buildTrade({
+      tx: fakeSignature(`trade-${i}`),
+      time: FIXTURE_TIME - i * 1000,
+      type: i % 2 === 0 ? 'buy' : 'sell',
+    })
+  );
+  return { trades, hasNextPage: false, ...overrides };
+}
+
+export function buildCandle(overrides: Partial<OHLCVData> = {}): OHLCVData {
+  return {
+    open: 0.0001,
+    close: 0.00011,
+    low: 0.00009,
+    high: 0.00012,
+    volume: 2500,
+    time: FIXTURE_TIME / 1000,
+    ...overrides,
+  };
+}
+
+/**
+ * Builds a chart response with hourly candles
+ * @param count Number of candles to generate
+ */
+export function buildChart(count = 24): ChartResponse {
+  return {
+    oclhv: Array.from({ length: count }, (_, i) =>
+      buildCandle({ time: FIXTURE_TIME / 1000 - (count - 1 - i) * 3600 })
+    ),
+  };
+}
+
+export function buildHolderChartData(overrides: Partial<HolderChartData> = {}): HolderChartData {
+  return { holders: 1500, time: FIXTURE_TIME / 1000, ...overrides };
+}
+
+/**
+ * Builds a holders chart response with daily data points
+ * @param count Number of data points to generate
+ */
+export function buildHoldersChart(count = 7): HoldersChartResponse {
+  return {
+    holders: Array.from({ length: count }, (_, i) =>
+      buildHolderChartData({ holders: 1000 + i * 100, time: FIXTURE_TIME / 1000 - (count - 1 - i) * 86400 })
+    ),
+  };
+}
+
+export function buildPnLData(overrides: Partial<PnLData> = {}): PnLData {
+  return {
+    holding: 500000,
+    held: 1000000,
+    sold: 500000,
+    realized: 25,
+    unrealized: 10,
+    total: 35,
+    total_sold: 75,
+    total_invested: 100,
+    average_buy_amount: 50,
+    current_value: 50,
+    cost_basis: 0.0001,
+    first_buy_time: FIXTURE_TIME - 86400000,
+    last_buy_time: FIXTURE_TIME - 3600000,
+    last_sell_time: FIXTURE_TIME - 600000,
+    last_trade_time: FIXTURE_TIME - 600000,
+    buy_transactions: 2,
+    sell_transactions: 1,
+    total_transactions: 3,
+    ...overrides,
+  };
+}
+
+export function buildPnLSummary(overrides: Partial<PnLSummary> = {}): PnLSummary {
+  return {
+    realized: 25,
+    unrealized: 10,
+    total: 35,
+    totalInvested: 100,
+    averageBuyAmount: 50,
+    totalWins: 3,
+    totalLosses: 1,
+    winPercentage: 75,
+    lossPercentage: 25,
+    neutralPercentage: 0,
+    ...overrides,
+  };
+}
+
+export function buildPnL(overrides: Partial<PnLResponse> = {}): PnLResponse {
+  return {
+    tokens: { [fakeAddress('mint')]: buildPnLData() },
+    summary: buildPnLSummary(),
+    ...overrides,
+  };
+}
+
+export function buildTokenPnL(overrides: Partial<TokenPnLResponse> = {}): TokenPnLResponse {
+  return buildPnLData(overrides);
+}
+
+export function buildFirstBuyer(overrides: Partial<FirstBuyerData> = {}): FirstBuyerData {
+  return {
+    ...buildPnLData(),
+    wallet: fakeAddress('buyer'),
+    first_buy_time: FIXTURE_TIME - 86400000,
+    last_transaction_time: FIXTURE_TIME - 600000,
+    ...overrides,
+  };
+}
+
+export function buildTopTrader(overrides: Partial<TopTrader> = {}): TopTrader {
+  return { wallet: fakeAddress('top-trader'), summary: buildPnLSummary(), ...overrides };
+}
+
+export function buildTopTraders(overrides: Partial<TopTradersResponse> = {}): TopTradersResponse {
+  return {
+    wallets: [0, 1, 2].map((i) => buildTopTrader({ wallet: fakeAddress(`top-trader-${i}`) })),
+    ...overrides,
+  };
+}
+
+export function buildTimeframeStats(overrides: Partial<TimeframeStats> = {}): TimeframeStats {
+  return {
+    buyers: 40,
+    sellers: 25,
+    volume: { buys: 1500, sells: 1000, total: 2500 },
+    transactions: 90,
+    buys: 55,
+    sells: 35,
+    wallets: 60,
+    price: 0.0001,
+    priceChangePercentage: 2.5,
+    ...overrides,
+  };
+}
+
+export function buildTokenStats(overrides: Partial<TokenStats> = {}): TokenStats {
+  return {
+    '5m': buildTimeframeStats(),
+    '1h': buildTimeframeStats(),
+    '24h': buildTimeframeStats(),
+    ...overrides,
+  };
+}
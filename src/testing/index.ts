@@ -0,0 +1,8 @@
+// Test helpers: fixture builders, an in-process fake of the REST API, a fake Datastream server and record/replay
+export * from './fixtures';
+export { MockDataApi, DEFAULT_MOCK_HANDLERS, mockResponse, createMockClient } from './mock-api';
+export type { MockHandler, MockRequest, MockResponse } from './mock-api';
+export { FakeDatastreamServer, FakeWebSocket, createMockDatastream } from './fake-datastream';
+export type { FakeSocketMessage } from './fake-datastream';
+export { Recorder, Replayer, UnmatchedRequestError } from './recording';
+export type { Recording, RecordedExchange, RecordedFrame, RecorderOptions, ReplayerOptions } from './recording';
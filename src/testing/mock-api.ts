@@ -0,0 +1,292 @@
+import { Client, DataApiConfig } from '../data-api';
+import { RouteTemplate, matchRoute } from '../routes';
+import { FetchLike, FetchRequestInit, FetchResponseLike } from '../transport';
+import {
+  buildAthPrice,
+  buildChart,
+  buildDeployerTokens,
+  buildFirstBuyer,
+  buildHoldersChart,
+  buildMultiPrice,
+  buildPnL,
+  buildPriceData,
+  buildPriceHistory,
+  buildPriceRange,
+  buildPriceTimestamp,
+  buildSearchResponse,
+  buildTokenDetail,
+  buildTokenHolders,
+  buildTokenInfo,
+  buildTokenOverview,
+  buildTokenPnL,
+  buildTokenStats,
+  buildTopHolder,
+  buildTopTraders,
+  buildTrades,
+  buildWallet,
+  buildWalletBasic,
+} from './fixtures';
+
+/**
+ * A request received by the mock API
+ */
+export interface MockRequest {
+  /** Full request URL */
+  url: string;
+  method: string;
+  /** Matched route template, e.g. `/tokens/:mint` */
+  route: string;
+  /** Path parameters of the route */
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: Record<string, string>;
+  /** Parsed JSON body, or the raw text when it is not JSON */
+  body?: unknown;
+}
+
+/**
+ * A response with an explicit status or headers, created with `mockResponse()`
+ */
+export interface MockResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Produces the response for a route: either the response body or a MockResponse
+ */
+export type MockHandler = (request: MockRequest) => unknown | Promise<unknown>;
+
+const mockResponses = new WeakSet<object>();
+
+/**
+ * Creates a response with an explicit status and headers
+ * @param status HTTP status
+ * @param body Response body, serialized as JSON
+ * @param headers Response headers
+ * @returns A value handlers can return instead of a plain body
+ */
+export function mockResponse(status: number, body?: unknown, headers: Record<string, string> = {}): MockResponse {
+  const response = { status, body, headers };
+  mockResponses.add(response);
+  return response;
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout',
+};
+
+const tokenAddresses = (request: MockRequest): string[] => {
+  const { body } = request;
+  if (body && typeof body === 'object' && Array.isArray((body as { tokens?: unknown }).tokens)) {
+    return (body as { tokens: string[] }).tokens;
+  }
+  return (request.query.get('tokens') || '').split(',').filter(Boolean);
+};
+
+const tokenDetail = (mint: string) => buildTokenDetail({ token: buildTokenInfo({ mint }) });
+
+/**
+ * Default fixture responses for every route the Client calls
+ */
+export const DEFAULT_MOCK_HANDLERS: Record<RouteTemplate, MockHandler> = {
+  '/tokens/multi/all': () => buildTokenOverview(),
+  '/tokens/multi/graduated': () => [buildTokenDetail()],
+  '/tokens/multi': (request) => tokenAddresses(request).map(tokenDetail),
+  '/tokens/latest': () => [buildTokenDetail()],
+  '/tokens/trending': () => [buildTokenDetail()],
+  '/tokens/trending/:timeframe': () => [buildTokenDetail()],
+  '/tokens/volume': () => [buildTokenDetail()],
+  '/tokens/volume/:timeframe': () => [buildTokenDetail()],
+  '/tokens/by-pool/:pool': ({ params }) => {
+    const detail = buildTokenDetail();
+    detail.pools[0].poolId = params.pool;
+    return detail;
+  },
+  '/tokens/:mint/holders/top': () => [buildTopHolder()],
+  '/tokens/:mint/holders': () => buildTokenHolders(),
+  '/tokens/:mint/ath': () => buildAthPrice(),
+  '/tokens/:mint': ({ params }) => tokenDetail(params.mint),
+  '/deployer/:wallet': () => buildDeployerTokens(),
+  '/search': () => buildSearchResponse(),
+  '/price/history/timestamp': ({ query }) =>
+    buildPriceTimestamp({ timestamp: Number(query.get('timestamp')) || undefined }),
+  '/price/history/range': ({ query }) => buildPriceRange({ token: query.get('token') || undefined }),
+  '/price/history': () => buildPriceHistory(),
+  '/price/multi': (request) => buildMultiPrice(tokenAddresses(request)),
+  '/price': () => buildPriceData(),
+  '/wallet/:owner/basic': () => buildWalletBasic(),
+  '/wallet/:owner/page/:page': () => buildWallet(),
+  '/wallet/:owner/trades': () => buildTrades(),
+  '/wallet/:owner': () => buildWallet(),
+  '/trades/:mint/by-wallet/:owner': () => buildTrades(),
+  '/trades/:mint/:pool/:owner': () => buildTrades(),
+  '/trades/:mint/:pool': () => buildTrades(),
+  '/trades/:mint': () => buildTrades(),
+  '/chart/:mint/:pool': () => buildChart(),
+  '/chart/:mint': () => buildChart(),
+  '/holders/chart/:mint': () => buildHoldersChart(),
+  '/pnl/:wallet/:mint': () => buildTokenPnL(),
+  '/pnl/:wallet': () => buildPnL(),
+  '/first-buyers/:mint': () => [buildFirstBuyer()],
+  '/top-traders/all/:page': () => buildTopTraders(),
+  '/top-traders/all': () => buildTopTraders(),
+  '/top-traders/:mint': () => [buildFirstBuyer()],
+  '/stats/:mint/:pool': () => buildTokenStats(),
+  '/stats/:mint': () => buildTokenStats(),
+};
+
+/**
+ * In-process fake of the Data API. Pass `mock.fetch` as the Client's fetch implementation.
+ * Every route answers with fixture data until overridden with `on()`.
+ */
+export class MockDataApi {
+  /** Every request received, in order */
+  public readonly requests: MockRequest[] = [];
+  private handlers = new Map<string, MockHandler>();
+
+  /**
+   * Fetch implementation serving the mock routes
+   */
+  readonly fetch: FetchLike = (url, init) => this.handle(url, init);
+
+  /**
+   * Overrides the response of a route
+   * @param route Route template, e.g. `/tokens/:mint`
+   * @param handler A handler, or a fixed response body or MockResponse
+   * @returns Reference to this instance for chaining
+   */
+  on(route: RouteTemplate | string, handler: MockHandler | unknown): this {
+    this.handlers.set(route, typeof handler === 'function' ? (handler as MockHandler) : () => handler);
+    return this;
+  }
+
+  /**
+   * Makes a route fail with the given status
+   * @param route Route template
+   * @param status HTTP status
+   * @param body Error body
+   * @param headers Response headers, e.g. `Retry-After`
+   * @returns Reference to this instance for chaining
+   */
+  fail(route: RouteTemplate | string, status: number, body?: unknown, headers?: Record<string, string>): this {
+    return this.on(route, () => mockResponse(status, body ?? { error: STATUS_TEXT[status] || 'Error' }, headers));
+  }
+
+  /**
+   * Requests received for a route
+   * @param route Route template
+   */
+  requestsFor(route: RouteTemplate | string): MockRequest[] {
+    return this.requests.filter((request) => request.route === route);
+  }
+
+  /**
+   * Removes all overrides and recorded requests
+   */
+  reset(): void {
+    this.handlers.clear();
+    this.requests.length = 0;
+  }
+
+  private async handle(url: string, init: FetchRequestInit = {}): Promise<FetchResponseLike> {
+    const { pathname, search } = new URL(url);
+    const route = matchRoute(`${pathname}${search}`);
+
+    let body: unknown;
+    if (typeof init.body === 'string' && init.body) {
+      try {
+        body = JSON.parse(init.body);
+      } catch {
+        body = init.body;
+      }
+    }
+
+    const request: MockRequest = {
+      url,
+      method: init.method || 'GET',
+      route: route.template,
+      params: route.params,
+      query: route.query,
+      headers: init.headers || {},
+      body,
+    };
+    this.requests.push(request);
+
+    const handler =
+      this.handlers.get(route.template) || DEFAULT_MOCK_HANDLERS[route.template as RouteTemplate];
+    const result = handler
+      ? await handler(request)
+      : mockResponse(404, { error: `No mock route for ${request.method} ${pathname}` });
+
+    const response =
+      result && typeof result === 'object' && mockResponses.has(result)
+        ? (result as MockResponse)
+        : { status: 200, body: result };
+    return createResponse(response);
+  }
+}
+
+function createResponse({ status, body, headers = {} }: MockResponse): FetchResponseLike {
+  const text = body === undefined ? '' : JSON.stringify(body);
+  const responseHeaders = { 'content-type': 'application/json', ...headers };
+  return createFetchResponse(status, STATUS_TEXT[status] || '', responseHeaders, text);
+}
+
+/**
+ * Creates a fetch response from its parts
+ * @param status HTTP status
+ * @param statusText HTTP status text
+ * @param headers Response headers
+ * @param text Raw response body
+ * @returns The response
+ */
+export function createFetchResponse(
+  status: number,
+  statusText: string,
+  headers: Record<string, string>,
+  text: string
+): FetchResponseLike {
+  const responseHeaders: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    responseHeaders[name.toLowerCase()] = value;
+  }
+
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText,
+    headers: {
+      get: (name) => responseHeaders[name.toLowerCase()] ?? null,
+      forEach: (callback) => Object.keys(responseHeaders).forEach((name) => callback(responseHeaders[name], name)),
+    },
+    json: async () => JSON.parse(text),
+    text: async () => text,
+  };
+}
+
+/**
+ * Creates a Client wired to a new in-process mock API
+ * @param config Client options, e.g. `{ validation: 'strict' }`
+ * @returns The client and the mock API it talks to
+ */
+export function createMockClient(config: Partial<DataApiConfig> = {}): { client: Client; api: MockDataApi } {
+  const api = new MockDataApi();
+  const client = new Client({
+    apiKey: 'test-api-key',
+    baseUrl: 'https://data.solanatracker.test',
+    ...config,
+    fetch: api.fetch,
+  });
+  return { client, api };
+}
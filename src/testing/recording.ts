@@ -0,0 +1,438 @@
+import { readFileSync, writeFileSync } from 'fs';
+import '../websocket-polyfill';
+import { DataApiError } from '../errors';
+import {
+  WebSocketCloseEventLike,
+  WebSocketConstructor,
+  WebSocketEventLike,
+  WebSocketHandler,
+  WebSocketLike,
+  WebSocketMessageEventLike,
+} from '../datastream';
+import { FetchLike, FetchRequestInit, headersToObject, defaultFetch } from '../transport';
+import { createFetchResponse } from './mock-api';
+
+const REDACTED = '[REDACTED]';
+const WEBSOCKET_CONNECTING = 0;
+const WEBSOCKET_OPEN = 1;
+const WEBSOCKET_CLOSED = 3;
+
+/**
+ * A recorded Client request and its response
+ */
+export interface RecordedExchange {
+  method: string;
+  /** Path and query string, without the base URL */
+  path: string;
+  /** Raw request body, if any */
+  requestBody?: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  /** Raw response body */
+  body: string;
+  /** Milliseconds since the recording started */
+  offsetMs: number;
+}
+
+/**
+ * A recorded WebSocket frame
+ */
+export interface RecordedFrame {
+  /** Index of the connection, in the order connections were opened */
+  connection: number;
+  /** `in` for frames received from the server, `out` for frames sent by the client */
+  direction: 'in' | 'out';
+  /** Milliseconds since the connection opened */
+  offsetMs: number;
+  data: string;
+}
+
+/**
+ * Contents of a fixture file
+ */
+export interface Recording {
+  version: 1;
+  http: RecordedExchange[];
+  stream: RecordedFrame[];
+}
+
+/**
+ * Thrown during replay for requests or messages that are not in the recording
+ */
+export class UnmatchedRequestError extends DataApiError {
+  constructor(message: string) {
+    super(message, undefined, 'UNMATCHED_REQUEST');
+    this.name = 'UnmatchedRequestError';
+  }
+}
+
+export interface RecorderOptions {
+  /** Fetch implementation that performs the real requests */
+  fetch?: FetchLike;
+  /** WebSocket implementation that opens the real connections */
+  WebSocket?: WebSocketConstructor;
+  /**
+   * Additional secrets to strip from the recording. The `x-api-key` request header
+   * is never recorded and its value is redacted wherever it appears.
+   */
+  redact?: string[];
+}
+
+const toPath = (url: string): string => {
+  const { pathname, search } = new URL(url);
+  return `${pathname}${search}`;
+};
+
+/**
+ * Records Client and Datastream traffic. Pass `recorder.fetch` and `recorder.WebSocket`
+ * to the Client and Datastream, then `save()` the recording.
+ */
+export class Recorder {
+  private recording: Recording = { version: 1, http: [], stream: [] };
+  private secrets = new Set<string>();
+  private startedAt = Date.now();
+  private connectionCount = 0;
+  private fetchImpl: FetchLike;
+
+  /** Fetch implementation that records every request */
+  readonly fetch: FetchLike = (url, init) => this.recordExchange(url, init);
+  /** WebSocket implementation that records every frame */
+  readonly WebSocket: WebSocketConstructor;
+
+  /**
+   * @param options Real transports and secrets to redact
+   */
+  constructor(options: RecorderOptions = {}) {
+    this.fetchImpl = options.fetch || defaultFetch;
+    (options.redact || []).forEach((secret) => this.addSecret(secret));
+    this.WebSocket = recordingSocketClass(this, options.WebSocket);
+  }
+
+  /**
+   * The recording so far, with secrets redacted
+   */
+  toJSON(): Recording {
+    return {
+      version: 1,
+      http: this.recording.http.map((exchange) => ({
+        ...exchange,
+        path: this.redact(exchange.path),
+        requestBody: exchange.requestBody === undefined ? undefined : this.redact(exchange.requestBody),
+        headers: JSON.parse(this.redact(JSON.stringify(exchange.headers))),
+        body: this.redact(exchange.body),
+      })),
+      stream: this.recording.stream.map((frame) => ({ ...frame, data: this.redact(frame.data) })),
+    };
+  }
+
+  /**
+   * Writes the recording to a JSON fixture file
+   * @param path File path
+   */
+  save(path: string): void {
+    writeFileSync(path, `${JSON.stringify(this.toJSON(), null, 2)}\n`);
+  }
+
+  /** @internal */
+  nextConnection(): number {
+    return this.connectionCount++;
+  }
+
+  /** @internal */
+  recordFrame(frame: RecordedFrame): void {
+    this.recording.stream.push(frame);
+  }
+
+  private addSecret(secret: string | undefined): void {
+    if (secret) {
+      this.secrets.add(secret);
+    }
+  }
+
+  private redact(text: string): string {
+    let result = text;
+    this.secrets.forEach((secret) => {
+      result = result.split(secret).join(REDACTED);
+      const encoded = encodeURIComponent(secret);
+      if (encoded !== secret) {
+        result = result.split(encoded).join(REDACTED);
+      }
+    });
+    return result;
+  }
+
+  private async recordExchange(url: string, init: FetchRequestInit = {}) {
+    this.addSecret(init.headers?.['x-api-key']);
+    const response = await this.fetchImpl(url, init);
+    const body = await response.text();
+    const headers = headersToObject(response.headers);
+
+    this.recording.http.push({
+      method: init.method || 'GET',
+      path: toPath(url),
+      requestBody: typeof init.body === 'string' ? init.body : undefined,
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body,
+      offsetMs: Date.now() - this.startedAt,
+    });
+
+    return createFetchResponse(response.status, response.statusText, headers, body);
+  }
+}
+
+function recordingSocketClass(recorder: Recorder, WebSocketImpl?: WebSocketConstructor): WebSocketConstructor {
+  return class RecordingWebSocket implements WebSocketLike {
+    onopen: WebSocketHandler<WebSocketEventLike> | null = null;
+    onmessage: WebSocketHandler<WebSocketMessageEventLike> | null = null;
+    onclose: WebSocketHandler<WebSocketCloseEventLike> | null = null;
+    onerror: WebSocketHandler<unknown> | null = null;
+    private socket: WebSocketLike;
+    private connection = recorder.nextConnection();
+    private openedAt = Date.now();
+
+    constructor(url: string) {
+      const Impl: WebSocketConstructor = WebSocketImpl || WebSocket;
+      this.socket = new Impl(url);
+      this.socket.onopen = (event) => {
+        this.openedAt = Date.now();
+        if (this.onopen) this.onopen(event);
+      };
+      this.socket.onmessage = (event) => {
+        this.record('in', String(event.data));
+        if (this.onmessage) this.onmessage(event);
+      };
+      this.socket.onclose = (event) => {
+        if (this.onclose) this.onclose(event);
+      };
+      this.socket.onerror = (event) => {
+        if (this.onerror) this.onerror(event);
+      };
+    }
+
+    get readyState(): number {
+      return this.socket.readyState;
+    }
+
+    send(data: string): void {
+      this.record('out', data);
+      this.socket.send(data);
+    }
+
+    close(): void {
+      this.socket.close();
+    }
+
+    private record(direction: 'in' | 'out', data: string): void {
+      recorder.recordFrame({
+        connection: this.connection,
+        direction,
+        offsetMs: Date.now() - this.openedAt,
+        data,
+      });
+    }
+  };
+}
+
+export interface ReplayerOptions {
+  /**
+   * Playback speed of Datastream messages relative to the recorded timing.
+   * Use Infinity to deliver messages as fast as possible.
+   * @default 1
+   */
+  speed?: number;
+  /**
+   * Serve the last recorded response again when an identical request is repeated
+   * more often than it was recorded, instead of failing
+   * @default false
+   */
+  allowRepeats?: boolean;
+}
+
+const exchangeKey = (method: string, path: string, body?: string): string =>
+  `${method.toUpperCase()} ${path}${body ? ` ${body}` : ''}`;
+
+const parseFrame = (data: string): { type?: string; room?: string } => {
+  try {
+    return JSON.parse(data) || {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Serves a recording back to a Client and Datastream. Pass `replayer.fetch` and
+ * `replayer.WebSocket` to them. Requests and messages that are not in the recording
+ * fail with an UnmatchedRequestError.
+ */
+export class Replayer {
+  private exchanges = new Map<string, RecordedExchange[]>();
+  private served = new Map<string, RecordedExchange>();
+  private connectionCount = 0;
+  private speed: number;
+  private allowRepeats: boolean;
+
+  /** Fetch implementation serving the recorded responses */
+  readonly fetch: FetchLike = (url, init) => this.replayExchange(url, init);
+  /** WebSocket implementation replaying the recorded frames */
+  readonly WebSocket: WebSocketConstructor;
+
+  /**
+   * @param recording The recording to serve
+   * @param options Playback options
+   */
+  constructor(private recording: Recording, options: ReplayerOptions = {}) {
+    this.speed = options.speed ?? 1;
+    this.allowRepeats = options.allowRepeats === true;
+    for (const exchange of recording.http) {
+      const key = exchangeKey(exchange.method, exchange.path, exchange.requestBody);
+      const queue = this.exchanges.get(key) || [];
+      queue.push(exchange);
+      this.exchanges.set(key, queue);
+    }
+    this.WebSocket = replaySocketClass(this);
+  }
+
+  /**
+   * Loads a recording from a JSON fixture file
+   * @param path File path
+   * @param options Playback options
+   * @returns The replayer
+   */
+  static load(path: string, options?: ReplayerOptions): Replayer {
+    return new Replayer(JSON.parse(readFileSync(path, 'utf8')), options);
+  }
+
+  /**
+   * Recorded requests that have not been replayed
+   */
+  get unused(): RecordedExchange[] {
+    const unused: RecordedExchange[] = [];
+    this.exchanges.forEach((queue) => unused.push(...queue));
+    return unused;
+  }
+
+  /**
+   * Throws if any recorded request was not replayed
+   */
+  assertAllUsed(): void {
+    const unused = this.unused;
+    if (unused.length > 0) {
+      throw new UnmatchedRequestError(
+        `${unused.length} recorded request(s) were not replayed: ${unused
+          .map((exchange) => `${exchange.method} ${exchange.path}`)
+          .join(', ')}`
+      );
+    }
+  }
+
+  /** @internal */
+  nextConnection(): { frames: RecordedFrame[]; speed: number } {
+    const connection = this.connectionCount++;
+    return {
+      frames: this.recording.stream.filter((frame) => frame.connection === connection),
+      speed: this.speed,
+    };
+  }
+
+  private async replayExchange(url: string, init: FetchRequestInit = {}) {
+    const method = init.method || 'GET';
+    const path = toPath(url);
+    const key = exchangeKey(method, path, typeof init.body === 'string' ? init.body : undefined);
+
+    let exchange = this.exchanges.get(key)?.shift();
+    if (exchange) {
+      if (this.exchanges.get(key)?.length === 0) {
+        this.exchanges.delete(key);
+      }
+      this.served.set(key, exchange);
+    } else if (this.allowRepeats) {
+      exchange = this.served.get(key);
+    }
+
+    if (!exchange) {
+      throw new UnmatchedRequestError(
+        `No recorded response for ${method} ${path}${init.body ? ` with body ${init.body}` : ''}`
+      );
+    }
+    return createFetchResponse(exchange.status, exchange.statusText, exchange.headers, exchange.body);
+  }
+}
+
+function replaySocketClass(replayer: Replayer): WebSocketConstructor {
+  return class ReplayWebSocket implements WebSocketLike {
+    readyState = WEBSOCKET_CONNECTING;
+    onopen: WebSocketHandler<WebSocketEventLike> | null = null;
+    onmessage: WebSocketHandler<WebSocketMessageEventLike> | null = null;
+    onclose: WebSocketHandler<WebSocketCloseEventLike> | null = null;
+    onerror: WebSocketHandler<unknown> | null = null;
+    private frames: RecordedFrame[];
+    private speed: number;
+    private rooms = new Set<string>();
+    private roomJoined: (() => void) | null = null;
+
+    constructor() {
+      const connection = replayer.nextConnection();
+      this.frames = connection.frames;
+      this.speed = connection.speed;
+      Promise.resolve().then(() => {
+        if (this.readyState === WEBSOCKET_CONNECTING) {
+          this.readyState = WEBSOCKET_OPEN;
+          if (this.onopen) this.onopen({});
+          this.play();
+        }
+      });
+    }
+
+    send(data: string): void {
+      const sent = parseFrame(data);
+      const recorded = this.frames.some((frame) => {
+        if (frame.direction !== 'out') return false;
+        const message = parseFrame(frame.data);
+        return message.type === sent.type && message.room === sent.room;
+      });
+      if (!recorded) {
+        throw new UnmatchedRequestError(`No recorded Datastream message matches ${data}`);
+      }
+
+      if (sent.type === 'join' && sent.room) {
+        this.rooms.add(sent.room);
+        if (this.roomJoined) this.roomJoined();
+      } else if (sent.type === 'leave' && sent.room) {
+        this.rooms.delete(sent.room);
+      }
+    }
+
+    close(): void {
+      if (this.readyState === WEBSOCKET_CLOSED) return;
+      this.readyState = WEBSOCKET_CLOSED;
+      if (this.roomJoined) this.roomJoined();
+      if (this.onclose) this.onclose({ code: 1000 });
+    }
+
+    /**
+     * Delivers the recorded frames with their original spacing, holding back
+     * room messages until the client has joined the room
+     */
+    private async play(): Promise<void> {
+      const startedAt = Date.now();
+      for (const frame of this.frames) {
+        if (frame.direction !== 'in') continue;
+
+        const { type, room } = parseFrame(frame.data);
+        while (type === 'message' && room && !this.rooms.has(room) && this.readyState === WEBSOCKET_OPEN) {
+          await new Promise<void>((resolve) => (this.roomJoined = resolve));
+        }
+
+        const delay = frame.offsetMs / this.speed - (Date.now() - startedAt);
+        if (delay > 0) {
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+        if (this.readyState !== WEBSOCKET_OPEN) return;
+        if (this.onmessage) this.onmessage({ data: frame.data });
+      }
+    }
+  };
+}
@@ -0,0 +1,139 @@
+// Timeframes and chart intervals accepted by the API
+import { ValidationError } from './errors';
+
+/**
+ * Timeframes accepted by `getTrendingTokens`
+ */
+export const TRENDING_TIMEFRAMES = ['5m', '15m', '30m', '1h', '2h', '3h', '4h', '5h', '6h', '12h', '24h'] as const;
+
+/**
+ * Timeframes accepted by `getTokensByVolume`
+ */
+export const VOLUME_TIMEFRAMES = ['5m', '15m', '30m', '1h', '6h', '12h', '24h'] as const;
+
+/**
+ * Candle intervals accepted by the chart endpoints
+ */
+export const CHART_INTERVALS = [
+  '1s',
+  '5s',
+  '15s',
+  '1m',
+  '3m',
+  '5m',
+  '15m',
+  '30m',
+  '1h',
+  '2h',
+  '4h',
+  '6h',
+  '8h',
+  '12h',
+  '1d',
+  '3d',
+  '1w',
+  '1mn',
+] as const;
+
+export type TrendingTimeframe = (typeof TRENDING_TIMEFRAMES)[number];
+export type VolumeTimeframe = (typeof VOLUME_TIMEFRAMES)[number];
+export type ChartInterval = (typeof CHART_INTERVALS)[number];
+
+const UNIT_SECONDS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60,
+  // The API's monthly candles, counted as 30 days
+  mn: 30 * 24 * 60 * 60,
+};
+
+const includes = (values: readonly string[], value: unknown): boolean =>
+  typeof value === 'string' && values.includes(value);
+
+const assertOneOf = (values: readonly string[], value: unknown, paramName: string): void => {
+  if (!includes(values, value)) {
+    throw new ValidationError(`Invalid ${paramName}: ${value}. Must be one of: ${values.join(', ')}`);
+  }
+};
+
+/**
+ * Checks whether a value is a trending timeframe
+ * @param value The value to check
+ */
+export function isTrendingTimeframe(value: unknown): value is TrendingTimeframe {
+  return includes(TRENDING_TIMEFRAMES, value);
+}
+
+/**
+ * Checks whether a value is a volume timeframe
+ * @param value The value to check
+ */
+export function isVolumeTimeframe(value: unknown): value is VolumeTimeframe {
+  return includes(VOLUME_TIMEFRAMES, value);
+}
+
+/**
+ * Checks whether a value is a chart interval
+ * @param value The value to check
+ */
+export function isChartInterval(value: unknown): value is ChartInterval {
+  return includes(CHART_INTERVALS, value);
+}
+
+/**
+ * Throws a ValidationError unless the value is a trending timeframe
+ * @param value The value to check
+ * @param paramName The parameter name for error messaging
+ */
+export function assertTrendingTimeframe(value: unknown, paramName = 'timeframe'): asserts value is TrendingTimeframe {
+  assertOneOf(TRENDING_TIMEFRAMES, value, paramName);
+}
+
+/**
+ * Throws a ValidationError unless the value is a volume timeframe
+ * @param value The value to check
+ * @param paramName The parameter name for error messaging
+ */
+export function assertVolumeTimeframe(value: unknown, paramName = 'timeframe'): asserts value is VolumeTimeframe {
+  assertOneOf(VOLUME_TIMEFRAMES, value, paramName);
+}
+
+/**
+ * Throws a ValidationError unless the value is a chart interval
+ * @param value The value to check
+ * @param paramName The parameter name for error messaging
+ */
+export function assertChartInterval(value: unknown, paramName = 'type'): asserts value is ChartInterval {
+  assertOneOf(CHART_INTERVALS, value, paramName);
+}
+
+/**
+ * Length of an interval or timeframe in seconds
+ * @param interval A chart interval or timeframe, e.g. `15m` or `1d`
+ * @returns The length in seconds (months count as 30 days)
+ * @throws ValidationError if the interval can't be parsed
+ */
+export function intervalToSeconds(interval: ChartInterval | TrendingTimeframe | VolumeTimeframe): number {
+  const match = /^(\d+)(s|m|h|d|w|mn)$/.exec(interval);
+  if (!match) {
+    throw new ValidationError(`Invalid interval: ${interval}`);
+  }
+  return Number(match[1]) * UNIT_SECONDS[match[2]];
+}
+
+/**
+ * Time range covering a number of candles, for the `timeFrom`/`timeTo` chart options
+ * @param interval Candle interval
+ * @param candles Number of candles
+ * @param timeTo End of the range (Unix timestamp in seconds), defaults to now
+ * @returns Start and end of the range in Unix seconds
+ */
+export function candleTimeRange(
+  interval: ChartInterval,
+  candles: number,
+  timeTo: number = Math.floor(Date.now() / 1000)
+): { timeFrom: number; timeTo: number } {
+  return { timeFrom: timeTo - intervalToSeconds(interval) * candles, timeTo };
+}
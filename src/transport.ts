@@ -0,0 +1,97 @@
+import { DataApiError, ValidationError } from './errors';
+
+/**
+ * Minimal response shape the client relies on, satisfied by the WHATWG fetch
+ * Response, node-fetch and most test doubles
+ */
+export interface FetchResponseLike {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: {
+    get(name: string): string | null;
+    forEach?(callback: (value: string, name: string) => void): void;
+  };
+  json(): Promise<unknown>;
+  text(): Promise<string>;
+}
+
+/**
+ * Request options passed to the fetch implementation
+ */
+export interface FetchRequestInit {
+  method?: string;
+  headers?: Record<string, string>;
+  /** Serialized request body, usually a JSON string */
+  body?: unknown;
+  signal?: AbortSignal;
+  /** HTTP(S) agent, honoured by node-fetch (ignored by the native fetch) */
+  agent?: unknown;
+}
+
+/**
+ * A fetch compatible function used to send HTTP requests
+ */
+export type FetchLike = (url: string, init?: FetchRequestInit) => Promise<FetchResponseLike>;
+
+let nodeFetch: Promise<FetchLike> | null = null;
+
+/**
+ * Whether the code runs in Node.js, the only runtime the node-fetch fallback is meant for
+ */
+const isNode = (): boolean => typeof process !== 'undefined' && typeof process.versions?.node === 'string';
+
+/**
+ * Loads node-fetch for Node.js versions without a global fetch (Node 14 to 17)
+ */
+function loadNodeFetch(): Promise<FetchLike> {
+  if (!nodeFetch) {
+    // Keeps the dynamic import intact in the CommonJS build, node-fetch v3 is ESM only.
+    // Only created here, so other runtimes never evaluate code from a string (e.g. under a strict CSP).
+    const importModule = new Function('specifier', 'return import(specifier)') as (
+      specifier: string
+    ) => Promise<{ default?: FetchLike }>;
+    nodeFetch = importModule('node-fetch')
+      .then((mod) => mod.default || (mod as unknown as FetchLike))
+      .catch((error) => {
+        nodeFetch = null;
+        throw new DataApiError(
+          `No fetch implementation available. Upgrade to Node 18+ or install node-fetch (${error})`,
+          undefined,
+          'FETCH_UNAVAILABLE'
+        );
+      });
+  }
+  return nodeFetch;
+}
+
+/**
+ * Default transport: the global fetch when available, node-fetch on older Node.js versions.
+ * The global is looked up on every call so it can still be replaced later.
+ * @throws ValidationError on other runtimes without a global fetch, which need the `fetch` option
+ */
+export const defaultFetch: FetchLike = async (url, init) => {
+  if (typeof globalThis.fetch === 'function') {
+    return globalThis.fetch(url, init as RequestInit);
+  }
+  if (!isNode()) {
+    throw new ValidationError('No global fetch available in this runtime. Pass a fetch implementation with the `fetch` option');
+  }
+  const fetchImpl = await loadNodeFetch();
+  return fetchImpl(url, init);
+};
+
+/**
+ * Copies response headers into a plain object with lower-cased names
+ * @param headers The response headers
+ * @returns The headers as an object (empty if the headers can't be enumerated)
+ */
+export function headersToObject(headers: FetchResponseLike['headers']): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (typeof headers.forEach === 'function') {
+    headers.forEach((value, name) => {
+      result[name.toLowerCase()] = value;
+    });
+  }
+  return result;
+}
@@ -0,0 +1,215 @@
+/**
+ * Config options for usage tracking
+ */
+export interface UsageConfig {
+  /**
+   * Fractions of the rate limit still remaining at which a `usage-threshold` event is emitted,
+   * e.g. 0.1 fires once fewer than 10% of the requests in the current window are left.
+   * @default [0.2, 0.1, 0.05]
+   */
+  thresholds?: number[];
+  /**
+   * Also log a warning when a threshold is crossed
+   * @default false
+   */
+  logWarnings?: boolean;
+}
+
+/**
+ * Snapshot of the API usage observed by a client
+ */
+export interface UsageSnapshot {
+  /** Request limit of the current window, as reported by the API */
+  limit?: number;
+  /** Requests left in the current window, as reported by the API */
+  remaining?: number;
+  /** Unix timestamp in milliseconds at which the window resets */
+  resetAt?: number;
+  /** Unix timestamp in milliseconds of the last response carrying usage headers */
+  updatedAt?: number;
+  /** Unix timestamp in milliseconds at which tracking started */
+  since: number;
+  /** HTTP requests sent since tracking started, including retries */
+  totalRequests: number;
+  /** HTTP requests sent per route template, e.g. `{ '/tokens/:mint': 12 }` */
+  requestsByRoute: Record<string, number>;
+  /** Number of 429 responses received */
+  rateLimitHits: number;
+  /** Raw rate limit, usage and credit headers of the last response that had any */
+  headers: Record<string, string>;
+}
+
+/**
+ * Payload of the `usage-threshold` event
+ */
+export interface UsageThresholdEvent {
+  /** The threshold that was crossed, as a fraction of the limit */
+  threshold: number;
+  limit: number;
+  remaining: number;
+  resetAt?: number;
+}
+
+const USAGE_HEADER_PATTERN = /^(x-)?(ratelimit|rate-limit|credits?|usage|quota)/;
+
+/**
+ * Values above this are treated as Unix timestamps in seconds rather than a number of seconds
+ */
+const EPOCH_SECONDS_CUTOFF = 1e9;
+
+/**
+ * Values above this are treated as Unix timestamps in milliseconds
+ */
+const EPOCH_MILLISECONDS_CUTOFF = 1e12;
+
+/**
+ * Converts a reset header value (seconds until the reset, or a Unix timestamp in seconds or milliseconds)
+ * to a Unix timestamp in milliseconds
+ */
+const toResetAt = (reset: number, now: number): number => {
+  if (reset > EPOCH_MILLISECONDS_CUTOFF) {
+    return reset;
+  }
+  return reset > EPOCH_SECONDS_CUTOFF ? reset * 1000 : now + reset * 1000;
+};
+
+const toNumber = (value: string | null | undefined): number | undefined => {
+  if (value === null || value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const number = Number(value.split(/[,;]/)[0]);
+  return isNaN(number) ? undefined : number;
+};
+
+/**
+ * Parses the structured `RateLimit` header, e.g. `limit=100, remaining=50, reset=30`
+ */
+const parseStructuredHeader = (value: string | undefined): Record<string, number> => {
+  const fields: Record<string, number> = {};
+  if (!value) {
+    return fields;
+  }
+  for (const part of value.split(/[,;]/)) {
+    const [key, raw] = part.split('=').map((item) => item.trim());
+    const number = toNumber(raw);
+    if (key && number !== undefined) {
+      fields[key.toLowerCase()] = number;
+    }
+  }
+  return fields;
+};
+
+/**
+ * Tracks rate limit headers and request counts
+ */
+export class UsageTracker {
+  private snapshot: UsageSnapshot = {
+    since: Date.now(),
+    totalRequests: 0,
+    requestsByRoute: {},
+    rateLimitHits: 0,
+    headers: {},
+  };
+  private thresholds: number[];
+  private crossed = new Set<number>();
+
+  /**
+   * @param config Usage tracking configuration
+   */
+  constructor(config: UsageConfig = {}) {
+    this.thresholds = [...(config.thresholds || [0.2, 0.1, 0.05])].sort((a, b) => b - a);
+  }
+
+  /**
+   * Counts a request about to be sent
+   * @param route Route template of the request
+   */
+  recordRequest(route: string): void {
+    this.snapshot.totalRequests++;
+    this.snapshot.requestsByRoute[route] = (this.snapshot.requestsByRoute[route] || 0) + 1;
+  }
+
+  /**
+   * Updates the usage from the headers of a response
+   * @param status HTTP status of the response
+   * @param headers Response headers with lower-case names
+   * @returns The thresholds crossed by this response, or null if it had no usage headers
+   */
+  recordResponse(status: number, headers: Record<string, string>): UsageThresholdEvent[] | null {
+    if (status === 429) {
+      this.snapshot.rateLimitHits++;
+    }
+
+    const usageHeaders: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (USAGE_HEADER_PATTERN.test(name)) {
+        usageHeaders[name] = value;
+      }
+    }
+    if (Object.keys(usageHeaders).length === 0) {
+      return null;
+    }
+
+    const structured = parseStructuredHeader(headers['ratelimit']);
+    const policy = parseStructuredHeader(headers['ratelimit-policy']);
+    const limit =
+      toNumber(headers['x-ratelimit-limit']) ??
+      toNumber(headers['ratelimit-limit']) ??
+      structured.limit ??
+      policy.q ??
+      toNumber(headers['ratelimit-policy']);
+    const remaining =
+      toNumber(headers['x-ratelimit-remaining']) ??
+      toNumber(headers['ratelimit-remaining']) ??
+      structured.remaining ??
+      structured.r;
+    const reset =
+      toNumber(headers['x-ratelimit-reset']) ??
+      toNumber(headers['ratelimit-reset']) ??
+      structured.reset ??
+      structured.t;
+
+    const now = Date.now();
+    this.snapshot.headers = usageHeaders;
+    this.snapshot.updatedAt = now;
+    if (limit !== undefined) this.snapshot.limit = limit;
+    if (reset !== undefined) {
+      this.snapshot.resetAt = toResetAt(reset, now);
+    }
+    if (remaining === undefined) {
+      return [];
+    }
+
+    const previous = this.snapshot.remaining;
+    this.snapshot.remaining = remaining;
+    if (previous !== undefined && remaining > previous) {
+      // A new window started
+      this.crossed.clear();
+    }
+
+    const currentLimit = this.snapshot.limit;
+    if (!currentLimit) {
+      return [];
+    }
+
+    const events: UsageThresholdEvent[] = [];
+    for (const threshold of this.thresholds) {
+      if (!this.crossed.has(threshold) && remaining / currentLimit <= threshold) {
+        this.crossed.add(threshold);
+        events.push({ threshold, limit: currentLimit, remaining, resetAt: this.snapshot.resetAt });
+      }
+    }
+    return events;
+  }
+
+  /**
+   * A copy of the current usage
+   */
+  get current(): UsageSnapshot {
+    return {
+      ...this.snapshot,
+      requestsByRoute: { ...this.snapshot.requestsByRoute },
+      headers: { ...this.snapshot.headers },
+    };
+  }
+}
@@ -0,0 +1,11 @@
+import { defineConfig } from 'tsup';
+
+export default defineConfig({
+  entry: ['src/index.ts', 'src/testing/index.ts', 'src/cli/index.ts'],
+  format: ['esm', 'cjs'],
+  dts: true,
+  // Share one copy of the client and error classes between the entries in both formats,
+  // so instanceof checks hold across `@solana-tracker/data-api` and its `/testing` entry
+  splitting: true,
+  clean: true,
+});